@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { MAX_BATCH_SIZE } from '@/lib/proxy-policy';
+import { BATCH_CONCURRENCY } from '@/lib/rpc-protocol';
+import { CacheStatus } from '@/lib/proxy-cache';
+import { cachedRead, proxyError, rateLimit, readJsonBody, resolveTarget, respond } from '@/lib/proxy-server';
+import { mapWithConcurrency } from '@/lib/utils';
+
+// One entry per call, in request order: the status and body /api/proxy would have answered
+interface BatchItem {
+  status: number;
+  body: unknown;
+  cache: CacheStatus | null;
+}
+
+// Runs several GET calls against one node in a single round-trip. Each call succeeds or fails on its own.
+export async function POST(request: Request) {
+  const limited = rateLimit(request);
+  if (limited) return limited;
+
+  const parsed = await readJsonBody(request);
+  if ('response' in parsed) return parsed.response;
+
+  const { rpcUrl, endpoints } = parsed.body ?? {};
+  if (typeof rpcUrl !== 'string' || !Array.isArray(endpoints) || endpoints.length === 0 || !endpoints.every(e => typeof e === 'string')) {
+    return respond(proxyError('INVALID_REQUEST', 'Missing rpcUrl or endpoints.', 400));
+  }
+  if (endpoints.length > MAX_BATCH_SIZE) {
+    return respond(proxyError('INVALID_REQUEST', `A batch holds at most ${MAX_BATCH_SIZE} calls.`, 400));
+  }
+
+  // Each call counts as one request; the first was counted above
+  const limitedBatch = rateLimit(request, endpoints.length - 1);
+  if (limitedBatch) return limitedBatch;
+
+  const results = await mapWithConcurrency(endpoints as string[], BATCH_CONCURRENCY, async (endpoint): Promise<BatchItem> => {
+    const target = resolveTarget(rpcUrl, 'GET', endpoint);
+    if ('error' in target) return { ...target.error, cache: null };
+    const { result, cache } = await cachedRead(target.url, endpoint);
+    return { ...result, cache };
+  });
+  console.log(`Proxy batch of ${endpoints.length} calls to ${rpcUrl}`);
+  return NextResponse.json({ results });
+}
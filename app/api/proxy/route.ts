@@ -1,48 +1,28 @@
-import { NextResponse } from 'next/server';
+import { redactPayload } from '@/lib/proxy-policy';
+import { cachedRead, forward, proxyError, rateLimit, readJsonBody, resolveTarget, respond } from '@/lib/proxy-server';
 
 export async function POST(request: Request) {
-  try {
-    const { method, endpoint, rpcUrl, payload } = await request.json();
-    console.log('Proxy Request Payload:', payload); // Tambah log buat cek payload
+  const limited = rateLimit(request);
+  if (limited) return limited;
 
-    if (!rpcUrl || !endpoint) {
-      return NextResponse.json({ error: 'Missing rpcUrl or endpoint' }, { status: 400 });
-    }
+  const parsed = await readJsonBody(request);
+  if ('response' in parsed) return parsed.response;
 
-    const url = `${rpcUrl}${endpoint}`;
-    console.log('Proxy URL:', url);
+  const { method, endpoint, rpcUrl, payload } = parsed.body ?? {};
+  if (typeof rpcUrl !== 'string' || typeof endpoint !== 'string' || (method !== 'GET' && method !== 'POST')) {
+    return respond(proxyError('INVALID_REQUEST', 'Missing rpcUrl, endpoint or method.', 400));
+  }
 
-    const response = await fetch(url, {
-      method: method,
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: method === 'POST' ? JSON.stringify(payload) : undefined,
-      signal: AbortSignal.timeout(10000),
-    });
+  const target = resolveTarget(rpcUrl, method, endpoint);
+  if ('error' in target) return respond(target.error);
+  const { url } = target;
 
-    console.log('Proxy Response Status:', response.status);
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorJson;
-      try {
-        errorJson = JSON.parse(errorText);
-      } catch {
-        errorJson = { error: errorText || 'RPC Error' };
-      }
-      console.log('Proxy Error:', errorJson);
-      return NextResponse.json(errorJson, { status: response.status });
-    }
+  console.log(`Proxy ${method} ${url.origin}${url.pathname}`, method === 'POST' ? redactPayload(payload) : '');
 
-    const data = await response.json();
-    console.log('Proxy Data:', data);
-    return NextResponse.json(data);
-  } catch (error: any) {
-    console.error('API Proxy Error:', error.message);
-    return NextResponse.json(
-      { error: 'An unexpected error occurred in the proxy.', details: error.message },
-      { status: 500 }
-    );
+  // Transactions are never cached or merged: every submission must reach the node
+  if (method === 'POST') {
+    return respond(await forward(url, method, payload));
   }
-}
\ No newline at end of file
+  const { result, cache, ageSeconds } = await cachedRead(url, endpoint);
+  return respond(result, { 'X-Proxy-Cache': cache, 'Age': String(ageSeconds) });
+}
@@ -0,0 +1,472 @@
+"use client";
+
+import { useState } from "react";
+import { useWallet } from "@/context/WalletContext";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { AlertCircle, CheckCircle, Copy, Download, Loader2, Split } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { createWallet, MNEMONIC_STRENGTHS, WalletData } from "@/lib/crypto";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { downloadTextFile, formatWalletTxt } from "@/lib/wallet-file";
+import { ShamirBackupDialog } from "./shamir-backup-dialog";
+
+// How many words the user must re-enter to prove the mnemonic was saved
+const VERIFY_WORD_COUNT = 3;
+
+interface CreateWalletDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after the new wallet has been added as an account
+  onDone?: () => void;
+  // A wallet generated elsewhere (e.g. the vanity search); skips straight to the backup step.
+  // Read when the dialog mounts, so callers key the dialog on it.
+  initialWallet?: WalletData | null;
+}
+
+// Picks distinct random word positions, in ascending order
+const pickVerifyIndices = (wordCount: number): number[] => {
+  const indices = new Set<number>();
+  const random = new Uint32Array(1);
+  while (indices.size < Math.min(VERIFY_WORD_COUNT, wordCount)) {
+    crypto.getRandomValues(random);
+    indices.add(random[0] % wordCount);
+  }
+  return [...indices].sort((a, b) => a - b);
+};
+
+export function CreateWalletDialog({ open, onOpenChange, onDone, initialWallet }: CreateWalletDialogProps) {
+  const { wallet, login, addAccounts } = useWallet();
+  const isAddingAccount = !!wallet;
+  const [step, setStep] = useState<'options' | 'backup' | 'verify' | 'login'>(initialWallet ? 'backup' : 'options');
+  const [wordCount, setWordCount] = useState(12);
+  const [bip39Passphrase, setBip39Passphrase] = useState("");
+  const [confirmBip39Passphrase, setConfirmBip39Passphrase] = useState("");
+  const [newWallet, setNewWallet] = useState<WalletData | null>(initialWallet ?? null);
+  const [verifyIndices, setVerifyIndices] = useState<number[]>([]);
+  const [verifyWords, setVerifyWords] = useState<Record<number, string>>({});
+  const [verifyPrivateKey, setVerifyPrivateKey] = useState("");
+  const [isVerified, setIsVerified] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [error, setError] = useState("");
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  // Key pair wallets have no mnemonic, so the private key itself is the backup
+  const hasMnemonic = !!newWallet && newWallet.mnemonic.length > 0;
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard.writeText(text);
+  };
+
+  const resetDialog = () => {
+    setStep('options');
+    setWordCount(12);
+    setBip39Passphrase("");
+    setConfirmBip39Passphrase("");
+    setNewWallet(null);
+    setVerifyIndices([]);
+    setVerifyWords({});
+    setVerifyPrivateKey("");
+    setIsVerified(false);
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setError("");
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen && (step === 'backup' || step === 'verify') && !confirm("You have not confirmed your backup. Close anyway? The new wallet will not be saved.")) {
+      return;
+    }
+    if (!newOpen) {
+      setTimeout(resetDialog, 200);
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleGenerate = () => {
+    setError("");
+    try {
+      if (bip39Passphrase !== confirmBip39Passphrase) {
+        throw new Error("BIP39 passphrases do not match.");
+      }
+      setNewWallet(createWallet(MNEMONIC_STRENGTHS[wordCount], bip39Passphrase));
+      setStep('backup');
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleDownloadWallet = () => {
+    if (!newWallet) return;
+
+    const data = newWallet;
+    const timestamp: number = Math.floor(Date.now() / 1000);
+    const filename: string = `octra_wallet_${data.address.slice(-8)}_${timestamp}.txt`;
+    const content: string = formatWalletTxt(
+      { privateKey: data.private_key_b64, publicKey: data.public_key_b64, address: data.address },
+      data
+    );
+
+    downloadTextFile(filename, content);
+  };
+
+  const handleStartVerify = () => {
+    if (!newWallet) return;
+    setError("");
+    setVerifyIndices(hasMnemonic ? pickVerifyIndices(newWallet.mnemonic.length) : []);
+    setVerifyWords({});
+    setVerifyPrivateKey("");
+    setStep('verify');
+  };
+
+  const handleVerify = () => {
+    if (!newWallet) return;
+    if (!hasMnemonic) {
+      if (verifyPrivateKey.trim() !== newWallet.private_key_b64) {
+        setError("The private key does not match. Check your backup and try again.");
+        return;
+      }
+      setError("");
+      setIsVerified(true);
+      setStep('login');
+      return;
+    }
+    const wrong = verifyIndices.filter(index => (verifyWords[index] || "").trim().toLowerCase() !== newWallet.mnemonic[index]);
+    if (wrong.length > 0) {
+      setError(`Word${wrong.length > 1 ? "s" : ""} #${wrong.map(index => index + 1).join(", #")} ${wrong.length > 1 ? "do" : "does"} not match. Check your backup and try again.`);
+      return;
+    }
+    setError("");
+    setIsVerified(true);
+    setStep('login');
+  };
+
+  const handleSkipVerify = () => {
+    if (confirm("Skipping verification means you have not proven your backup works. If your backup is wrong or lost, your funds cannot be recovered. Skip anyway?")) {
+      setError("");
+      setIsVerified(false);
+      setStep('login');
+    }
+  };
+
+  const handleLogin = async () => {
+    if (!newWallet) return;
+    setError("");
+    setIsConnecting(true);
+    try {
+      const newAccount = { privateKey: newWallet.private_key_b64 };
+      if (isAddingAccount) {
+        await addAccounts([newAccount]);
+      } else {
+        if (passphrase !== confirmPassphrase) {
+          throw new Error("Passphrases do not match.");
+        }
+        await login([newAccount], passphrase);
+      }
+      onOpenChange(false);
+      resetDialog();
+      onDone?.();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {step === 'options' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Create New Wallet</DialogTitle>
+              <DialogDescription>
+                Choose how strong your mnemonic backup should be.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="word-count">Mnemonic Length</Label>
+                <NativeSelect
+                  id="word-count"
+                  value={wordCount}
+                  onChange={(e) => setWordCount(Number(e.target.value))}
+                >
+                  {Object.entries(MNEMONIC_STRENGTHS).map(([words, bits]) => (
+                    <option key={words} value={words}>{words} words ({bits}-bit)</option>
+                  ))}
+                </NativeSelect>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bip39-passphrase">BIP39 Passphrase (Optional)</Label>
+                <Input
+                  id="bip39-passphrase"
+                  type="password"
+                  placeholder="Also known as the 25th word"
+                  value={bip39Passphrase}
+                  onChange={(e) => setBip39Passphrase(e.target.value)}
+                />
+                {bip39Passphrase && (
+                  <Input
+                    id="confirm-bip39-passphrase"
+                    type="password"
+                    placeholder="Repeat the BIP39 passphrase"
+                    value={confirmBip39Passphrase}
+                    onChange={(e) => setConfirmBip39Passphrase(e.target.value)}
+                  />
+                )}
+                <p className="text-xs text-muted-foreground">
+                  The passphrase changes every derived key. You will need both the mnemonic and this passphrase to restore the wallet, and it cannot be recovered if forgotten.
+                </p>
+              </div>
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" className="w-full" onClick={handleGenerate}>Generate Wallet</Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'backup' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Wallet Created Successfully</DialogTitle>
+              <DialogDescription>
+                Your new wallet has been created. Please save your {hasMnemonic ? "mnemonic phrase and private key" : "private key"} securely.
+                <strong> You will not be able to recover them if you lose them.</strong>
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {newWallet?.has_passphrase && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    This wallet uses a BIP39 passphrase. Store it separately from the mnemonic; both are needed to restore the wallet.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {hasMnemonic && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Mnemonic Phrase</Label>
+                    <Button variant="ghost" size="sm" onClick={() => handleCopy(newWallet?.mnemonic.join(" ") || "")}>
+                      <Copy className="w-4 h-4 mr-1" />
+                      Copy
+                    </Button>
+                  </div>
+                  <ol className="grid grid-cols-3 gap-2">
+                    {newWallet?.mnemonic.map((word, index) => (
+                      <li key={index} className="px-2 py-1 text-sm font-mono rounded-md border">
+                        <span className="text-muted-foreground mr-1">{index + 1}.</span>{word}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="new-address">Wallet Address</Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Input
+                        id="new-address"
+                        className="cursor-pointer"
+                        readOnly
+                        onClick={() => handleCopy(newWallet?.address || "")}
+                        value={newWallet?.address || ""}
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent><p>Click to copy</p></TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-private-key">Private Key</Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Input
+                        id="new-private-key"
+                        type="password"
+                        className="cursor-pointer"
+                        readOnly
+                        onClick={() => handleCopy(newWallet?.private_key_b64 || "")}
+                        value={newWallet?.private_key_b64 || ""}
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent><p>Click to copy</p></TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Important:</strong> Do not share your mnemonic phrase or private key with anyone. Store them in a safe and secure place.
+                </AlertDescription>
+              </Alert>
+            </div>
+            <DialogFooter className="flex-col sm:flex-col gap-2">
+              <Button type="button" variant="outline" className="w-full" onClick={handleDownloadWallet}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Wallet File
+              </Button>
+              {hasMnemonic && (
+                <Button type="button" variant="outline" className="w-full" onClick={() => setIsShareDialogOpen(true)}>
+                  <Split className="mr-2 h-4 w-4" />
+                  Split Into Shares
+                </Button>
+              )}
+              <Button type="button" className="w-full" onClick={handleStartVerify}>
+                {hasMnemonic ? "I Have Saved My Mnemonic" : "I Have Saved My Private Key"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'verify' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Confirm Your Backup</DialogTitle>
+              <DialogDescription>
+                {hasMnemonic
+                  ? "Enter the requested words from your mnemonic phrase to prove you saved it."
+                  : "Paste the private key from your backup to prove you saved it."}
+              </DialogDescription>
+            </DialogHeader>
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleVerify();
+              }}
+            >
+              {verifyIndices.map((index, i) => (
+                <div key={index} className="space-y-1">
+                  <Label htmlFor={`verify-word-${index}`}>Word #{index + 1}</Label>
+                  <Input
+                    id={`verify-word-${index}`}
+                    autoFocus={i === 0}
+                    autoComplete="off"
+                    spellCheck={false}
+                    value={verifyWords[index] || ""}
+                    onChange={(e) => setVerifyWords({ ...verifyWords, [index]: e.target.value })}
+                  />
+                </div>
+              ))}
+              {!hasMnemonic && (
+                <div className="space-y-1">
+                  <Label htmlFor="verify-private-key">Private Key</Label>
+                  <Input
+                    id="verify-private-key"
+                    type="password"
+                    autoFocus
+                    autoComplete="off"
+                    value={verifyPrivateKey}
+                    onChange={(e) => setVerifyPrivateKey(e.target.value)}
+                  />
+                </div>
+              )}
+              <button type="submit" hidden />
+            </form>
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <DialogFooter className="flex-col sm:flex-col gap-2">
+              <Button type="button" className="w-full" onClick={handleVerify}>Verify</Button>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={() => setStep('backup')}>Back</Button>
+                <Button type="button" variant="ghost" className="flex-1" onClick={handleSkipVerify}>Skip Verification</Button>
+              </div>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'login' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{isVerified ? "Backup Confirmed" : "Backup Not Verified"}</DialogTitle>
+              <DialogDescription>
+                {isAddingAccount
+                  ? "Add the new wallet to your accounts."
+                  : "Choose a passphrase to encrypt the new wallet in this browser."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {isVerified ? (
+                <div className="flex items-center p-3 space-x-2 text-sm rounded-md bg-muted text-muted-foreground">
+                  <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600" />
+                  <p>Your {hasMnemonic ? "mnemonic" : "private key"} backup matches.</p>
+                </div>
+              ) : (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    You skipped verifying your backup. Do not send funds to this wallet until you are sure your backup is correct.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {!isAddingAccount && (
+                <div className="space-y-2">
+                  <Label htmlFor="new-wallet-passphrase">Passphrase</Label>
+                  <Input
+                    id="new-wallet-passphrase"
+                    type="password"
+                    placeholder="At least 8 characters"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    disabled={isConnecting}
+                  />
+                  <Input
+                    id="new-wallet-confirm-passphrase"
+                    type="password"
+                    placeholder="Repeat your passphrase"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    disabled={isConnecting}
+                  />
+                </div>
+              )}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" className="w-full" onClick={handleLogin} disabled={isConnecting}>
+                {isConnecting ? (
+                  <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Connecting...</>
+                ) : (
+                  isAddingAccount ? "Add Account" : "Log In With New Wallet"
+                )}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+        {newWallet && hasMnemonic && (
+          <ShamirBackupDialog open={isShareDialogOpen} onOpenChange={setIsShareDialogOpen} wallet={newWallet} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,27 @@
+import { useState } from "react";
 import { Header } from "./dashboard/header";
 import { Sidebar } from "./dashboard/sidebar";
 import { HistoryTable } from "./dashboard/history-table";
+import { WalletSetup } from "./wallet-setup";
 import { useWallet } from "@/context/WalletContext";
 
 export function Dashboard() {
-  const { logout } = useWallet();
+  const { accounts, logout } = useWallet();
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
+
+  const handleLogout = () => {
+    if (accounts.length <= 1 || confirm(`Log out and forget all ${accounts.length} accounts saved in this browser?`)) {
+      logout();
+    }
+  };
+
+  if (isAddingAccount) {
+    return <WalletSetup onDone={() => setIsAddingAccount(false)} />;
+  }
 
   return (
     <div className="min-h-screen flex flex-col p-4 md:p-8">
-      <Header onLogout={logout} />
+      <Header onLogout={handleLogout} onAddAccount={() => setIsAddingAccount(true)} />
       <div className="flex-grow flex items-center justify-center">
         <main className="grid w-full max-w-7xl grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-1">
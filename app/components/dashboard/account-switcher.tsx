@@ -0,0 +1,136 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ReactNode, useState } from "react";
+import { useWallet } from "@/context/WalletContext";
+import { Check, Eye, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface AccountSwitcherProps {
+  children: ReactNode;
+  onAddAccount: () => void;
+}
+
+export function AccountSwitcher({ children, onAddAccount }: AccountSwitcherProps) {
+  const { accounts, activeAccount, switchAccount, renameAccount, removeAccount } = useWallet();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setEditingId(null);
+    setOpen(newOpen);
+  };
+
+  const handleSwitch = (id: string) => {
+    switchAccount(id);
+    setOpen(false);
+  };
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  const saveRename = () => {
+    if (editingId) {
+      renameAccount(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  const handleRemove = (id: string, name: string) => {
+    const message = accounts.length === 1
+      ? `Remove "${name}"? This is your last account, so the saved wallet will be cleared from this browser.`
+      : `Remove "${name}" from this browser? Make sure you have a backup of its private key or mnemonic.`;
+    if (confirm(message)) {
+      removeAccount(id);
+    }
+  };
+
+  const handleAdd = () => {
+    setOpen(false);
+    onAddAccount();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Accounts</DialogTitle>
+          <DialogDescription>Switch between the accounts saved in this browser.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[360px]">
+          <div className="space-y-2 pr-2">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center gap-2 p-3 border rounded-md">
+                <div className="flex-1 min-w-0">
+                  {editingId === account.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        saveRename();
+                      }}
+                    >
+                      <Input
+                        autoFocus
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value.slice(0, 32))}
+                      />
+                    </form>
+                  ) : (
+                    <button
+                      type="button"
+                      className="w-full text-left cursor-pointer"
+                      onClick={() => handleSwitch(account.id)}
+                    >
+                      <div className="flex items-center gap-2 font-medium">
+                        <span className="truncate">{account.name}</span>
+                        {account.id === activeAccount?.id && <Badge variant="secondary">Active</Badge>}
+                        {account.watchOnly && <Badge variant="outline"><Eye />Watch-only</Badge>}
+                      </div>
+                      <p className="text-xs font-mono text-muted-foreground truncate">{account.address}</p>
+                    </button>
+                  )}
+                </div>
+                {editingId === account.id ? (
+                  <>
+                    <Button variant="ghost" size="icon" onClick={saveRename}><Check className="w-4 h-4"/></Button>
+                    <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}><X className="w-4 h-4"/></Button>
+                  </>
+                ) : (
+                  <>
+                    <Button variant="ghost" size="icon" onClick={() => startRename(account.id, account.name)}>
+                      <Pencil className="w-4 h-4"/>
+                      <span className="sr-only">Rename</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemove(account.id, account.name)}>
+                      <Trash2 className="w-4 h-4 text-red-500"/>
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button className="w-full" variant="outline" onClick={handleAdd}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Account
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ReactNode, useState } from "react";
+import { useAddressBook } from "@/context/AddressBookContext";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { AddressBookEntryDialog } from "./address-book-entry-dialog";
+
+interface AddressBookDialogProps {
+  children: ReactNode;
+}
+
+export function AddressBookDialog({ children }: AddressBookDialogProps) {
+  const { entries, removeEntry, searchEntries } = useAddressBook();
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<{ address: string } | null>(null);
+
+  const handleRemove = (address: string, label: string) => {
+    if (confirm(`Remove "${label}" from the address book?`)) {
+      removeEntry(address);
+    }
+  };
+
+  const results = searchEntries(query);
+
+  return (
+    <Dialog onOpenChange={() => setQuery("")}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Address Book</DialogTitle>
+          <DialogDescription>Saved counterparties, available when sending and shown in your history.</DialogDescription>
+        </DialogHeader>
+        <Input placeholder="Search by label, address, note or tag" value={query} onChange={(e) => setQuery(e.target.value)} />
+        <ScrollArea className="h-[300px] border rounded-md">
+          <div className="p-2 space-y-1">
+            {results.length === 0 && (
+              <p className="p-4 text-sm text-center text-muted-foreground">
+                {entries.length === 0 ? "No saved addresses yet." : "No matching addresses."}
+              </p>
+            )}
+            {results.map(entry => (
+              <div key={entry.address} className="flex items-start gap-2 p-2 rounded-md hover:bg-muted/50">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-sm font-medium">{entry.label}</span>
+                    {entry.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs font-mono break-all text-muted-foreground">{entry.address}</p>
+                  {entry.note && <p className="text-xs text-muted-foreground">{entry.note}</p>}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => navigator.clipboard.writeText(entry.address)}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setEditing({ address: entry.address })}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleRemove(entry.address, entry.label)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button className="w-full" variant="outline" onClick={() => setEditing({ address: "" })}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Address
+          </Button>
+        </DialogFooter>
+        <AddressBookEntryDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          address={editing?.address}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useState } from "react";
+import { useAddressBook } from "@/context/AddressBookContext";
+import { AlertCircle } from "lucide-react";
+
+interface AddressBookEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The address to save or edit; empty to enter a new one
+  address?: string;
+}
+
+export function AddressBookEntryDialog({ open, onOpenChange, address = "" }: AddressBookEntryDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {/* The content mounts on every open, so the form starts from the saved entry each time */}
+        <AddressBookEntryForm address={address} onSaved={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AddressBookEntryForm({ address, onSaved }: { address: string; onSaved: () => void }) {
+  const { getEntry, saveEntry } = useAddressBook();
+  const existing = address ? getEntry(address) : undefined;
+  const [draftAddress, setDraftAddress] = useState(address);
+  const [label, setLabel] = useState(existing?.label ?? "");
+  const [note, setNote] = useState(existing?.note ?? "");
+  const [tags, setTags] = useState(existing?.tags.join(", ") ?? "");
+  const [error, setError] = useState("");
+
+  const handleSave = () => {
+    setError("");
+    try {
+      saveEntry({ address: draftAddress, label, note, tags: tags.split(",") });
+      onSaved();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{existing ? "Edit Contact" : "Save Contact"}</DialogTitle>
+        <DialogDescription>Labels replace the raw address in Send and Transaction History.</DialogDescription>
+      </DialogHeader>
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="contact-address">Address</Label>
+          <Input
+            id="contact-address"
+            placeholder="oct..."
+            className="font-mono text-xs"
+            value={draftAddress}
+            onChange={(e) => setDraftAddress(e.target.value)}
+            readOnly={!!address}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-label">Label</Label>
+          <Input
+            id="contact-label"
+            placeholder="e.g. Exchange deposit"
+            value={label}
+            onChange={(e) => setLabel(e.target.value.slice(0, 32))}
+            autoFocus
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-tags">Tags (Optional)</Label>
+          <Input
+            id="contact-tags"
+            placeholder="Comma separated, e.g. payroll, partner"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-note">Note (Optional)</Label>
+          <Textarea
+            id="contact-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value.slice(0, 256))}
+            rows={3}
+          />
+        </div>
+        <button type="submit" hidden />
+      </form>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <DialogFooter>
+        <Button className="w-full" onClick={handleSave}>Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
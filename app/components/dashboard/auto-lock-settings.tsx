@@ -0,0 +1,96 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { ReactNode, useState } from "react";
+import { AutoLockSettings as AutoLockSettingsValue, useWallet } from "@/context/WalletContext";
+
+const IDLE_OPTIONS: { label: string; value: number | null }[] = [
+  { label: "1 minute", value: 1 },
+  { label: "5 minutes", value: 5 },
+  { label: "15 minutes", value: 15 },
+  { label: "30 minutes", value: 30 },
+  { label: "1 hour", value: 60 },
+  { label: "Never", value: null },
+];
+
+const HIDDEN_OPTIONS: { label: string; value: number | null }[] = [
+  { label: "Immediately", value: 0 },
+  { label: "After 30 seconds", value: 30 },
+  { label: "After 1 minute", value: 60 },
+  { label: "After 5 minutes", value: 300 },
+  { label: "Never", value: null },
+];
+
+interface AutoLockSettingsProps {
+  children: ReactNode;
+}
+
+export function AutoLockSettings({ children }: AutoLockSettingsProps) {
+  const { autoLock, setAutoLock } = useWallet();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AutoLockSettingsValue>(autoLock);
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (newOpen) {
+      setDraft(autoLock);
+    }
+    setOpen(newOpen);
+  };
+
+  const handleSave = () => {
+    setAutoLock(draft);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Auto-Lock</DialogTitle>
+          <DialogDescription>
+            Locking clears your private keys from memory. Your accounts and history stay, and the passphrase unlocks them again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="idle-minutes">Lock after inactivity</Label>
+            <NativeSelect
+              id="idle-minutes"
+              value={String(draft.idleMinutes)}
+              onChange={(e) => setDraft({ ...draft, idleMinutes: e.target.value === "null" ? null : Number(e.target.value) })}
+            >
+              {IDLE_OPTIONS.map(option => (
+                <option key={option.label} value={String(option.value)}>{option.label}</option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hidden-grace">Lock when the tab is hidden</Label>
+            <NativeSelect
+              id="hidden-grace"
+              value={String(draft.hiddenGraceSeconds)}
+              onChange={(e) => setDraft({ ...draft, hiddenGraceSeconds: e.target.value === "null" ? null : Number(e.target.value) })}
+            >
+              {HIDDEN_OPTIONS.map(option => (
+                <option key={option.label} value={String(option.value)}>{option.label}</option>
+              ))}
+            </NativeSelect>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button className="w-full" onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ReactNode, useState } from "react";
+import { useWallet } from "@/context/WalletContext";
+import { useNetwork } from "@/context/NetworkContext";
+import { AlertCircle, Download } from "lucide-react";
+import { downloadTextFile, formatCliWalletJson, formatWalletTxt, toExportableWallet, WalletFileFormat } from "@/lib/wallet-file";
+
+interface ExportDialogProps {
+  children: ReactNode;
+}
+
+export function ExportDialog({ children }: ExportDialogProps) {
+  const { wallet } = useWallet();
+  const { network } = useNetwork();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<WalletFileFormat>("txt");
+
+  const handleExport = () => {
+    if (!wallet?.privateKey) return;
+
+    const exportable = toExportableWallet(wallet.privateKey);
+    if (format === "cli-json") {
+      downloadTextFile("wallet.json", formatCliWalletJson(exportable, network.rpcUrls[0]), "application/json");
+    } else {
+      const timestamp: number = Math.floor(Date.now() / 1000);
+      downloadTextFile(`octra_wallet_${exportable.address.slice(-8)}_${timestamp}.txt`, formatWalletTxt(exportable));
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Wallet File</DialogTitle>
+          <DialogDescription>Download the private key of the current account.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Button
+              variant={format === "txt" ? "default" : "outline"}
+              size="sm"
+              className="flex-1"
+              onClick={() => setFormat("txt")}
+            >
+              Octra .txt
+            </Button>
+            <Button
+              variant={format === "cli-json" ? "default" : "outline"}
+              size="sm"
+              className="flex-1"
+              onClick={() => setFormat("cli-json")}
+            >
+              Official client wallet.json
+            </Button>
+          </div>
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              The file contains your private key in plaintext. Anyone who gets it can spend your funds.
+            </AlertDescription>
+          </Alert>
+        </div>
+        <DialogFooter>
+          <Button className="w-full" onClick={handleExport} disabled={!wallet?.privateKey}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,22 @@
 import { Button } from "@/components/ui/button";
-import { LogOut, RefreshCw } from "lucide-react";
+import { ChevronsUpDown, Eye, Globe, Lock, LogOut, RefreshCw, Timer } from "lucide-react";
 import { mutate } from 'swr'; // Import mutate for revalidation
+import { useWallet } from "@/context/WalletContext";
+import { useNetwork } from "@/context/NetworkContext";
+import { AccountSwitcher } from "./account-switcher";
+import { AutoLockSettings } from "./auto-lock-settings";
+import { NetworkSwitcher } from "./network-switcher";
+import { RpcStatus } from "./rpc-status";
 
 interface HeaderProps {
   onLogout: () => void;
+  onAddAccount: () => void;
 }
 
-export function Header({ onLogout }: HeaderProps) {
+export function Header({ onLogout, onAddAccount }: HeaderProps) {
+  const { activeAccount, lock } = useWallet();
+  const { network } = useNetwork();
+
   const handleRefresh = () => {
     // SWR's mutate function can revalidate all keys.
     // We use a predicate to only revalidate keys that are arrays (our API keys).
@@ -17,10 +27,34 @@ export function Header({ onLogout }: HeaderProps) {
     <header className="flex items-center justify-between mb-6">
       <h1 className="text-3xl font-bold text-primary">Dashboard</h1>
       <div className="flex items-center space-x-2">
+        <AccountSwitcher onAddAccount={onAddAccount}>
+          <Button variant="outline" className="max-w-[200px]">
+            {activeAccount?.watchOnly && <Eye className="w-4 h-4 mr-2" />}
+            <span className="truncate">{activeAccount?.name}</span>
+            <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50" />
+          </Button>
+        </AccountSwitcher>
+        <NetworkSwitcher>
+          <Button variant="outline" className="max-w-[180px]">
+            <Globe className="w-4 h-4 mr-2" />
+            <span className="truncate">{network.label}</span>
+          </Button>
+        </NetworkSwitcher>
+        <RpcStatus />
         <Button variant="outline" size="icon" onClick={handleRefresh}>
           <RefreshCw className="w-4 h-4" />
           <span className="sr-only">Refresh Data</span>
         </Button>
+        <AutoLockSettings>
+          <Button variant="outline" size="icon">
+            <Timer className="w-4 h-4" />
+            <span className="sr-only">Auto-Lock Settings</span>
+          </Button>
+        </AutoLockSettings>
+        <Button variant="outline" onClick={lock}>
+          <Lock className="w-4 h-4 mr-2" />
+          Lock
+        </Button>
         <Button variant="destructive" onClick={onLogout}>
           <LogOut className="w-4 h-4 mr-2" />
           Logout
@@ -1,11 +1,19 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle, ArrowDownLeft, ArrowUpRight, Copy, Loader2 } from "lucide-react";
+import { AlertCircle, ArrowDownLeft, ArrowUpRight, BookmarkPlus, Copy, Loader2, RefreshCw } from "lucide-react";
 import { useTransactionHistory } from "@/hooks/use-wallet-data";
-import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Button } from "@/components/ui/button";
+import { useState } from "react";
+import { useAddressBook } from "@/context/AddressBookContext";
+import { useNetwork } from "@/context/NetworkContext";
+import { describeRpcError } from "@/lib/rpc-errors";
+import { explorerAddressUrl, explorerTxUrl } from "@/lib/networks";
+import { AddressBookEntryDialog } from "./address-book-entry-dialog";
+import { LastUpdated } from "./last-updated";
 
 // Format timestamp to readable date
 const formatDate = (date: Date) => {
@@ -31,17 +39,31 @@ const formatAmount = (amount: number) => {
   }).format(amount);
 };
 
+// Format hash for display (show first 8 and last 8 characters)
+const formatHash = (hash: string) => {
+  return hash ? `${hash.substring(0, 8)}...${hash.substring(hash.length - 8)}` : 'N/A';
+};
+
 const handleCopy = (text: string) => {
   navigator.clipboard.writeText(text);
 };
 
 export function HistoryTable() {
-  const {history, isLoading, error} = useTransactionHistory();
+  const {history, failed, retryFailed, isLoading, error, updatedAt} = useTransactionHistory();
+  const isOnline = useOnlineStatus();
+  const { getEntry } = useAddressBook();
+  const { network } = useNetwork();
+  // The counterparty being saved to the address book
+  const [savingAddress, setSavingAddress] = useState<string | null>(null);
+  const errorInfo = error ? describeRpcError(error) : null;
 
   return (
     <Card className="h-full">
       <CardHeader>
-        <CardTitle>Transaction History</CardTitle>
+        <CardTitle className="flex items-center justify-between">
+          Transaction History
+          <LastUpdated at={updatedAt} className="font-normal" />
+        </CardTitle>
       </CardHeader>
       <CardContent>
         {isLoading && (
@@ -49,10 +71,11 @@ export function HistoryTable() {
             <Loader2 className="h-8 w-8 animate-spin text-muted-foreground"/>
           </div>
         )}
-        {error && (
+        {errorInfo && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4"/>
-            <AlertDescription>{error.message}</AlertDescription>
+            <AlertTitle>{errorInfo.message}</AlertTitle>
+            <AlertDescription>{errorInfo.action}</AlertDescription>
           </Alert>
         )}
         {!isLoading && !error && (
@@ -69,7 +92,7 @@ export function HistoryTable() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {history.length === 0 && (
+                {history.length === 0 && failed.length === 0 && (
                   <TableRow>
                     <TableCell colSpan={6} className="h-24 text-center">
                       No transactions found.
@@ -103,13 +126,14 @@ export function HistoryTable() {
                       <div className="flex items-center gap-2">
                         <span
                           className="font-mono text-sm cursor-pointer hover:bg-muted/50 hover:underline transition-colors"
+                          title={tx.to}
                           onClick={() => {
                             if (tx.hash) {
-                              window.open(`https://octrascan.io/addr/${tx.to}`, '_blank', 'noopener,noreferrer');
+                              window.open(explorerAddressUrl(network, tx.to), '_blank', 'noopener,noreferrer');
                             }
                           }}
                         >
-                          {formatAddress(tx.to)}
+                          {getEntry(tx.to)?.label ?? formatAddress(tx.to)}
                         </span>
                         <TooltipProvider>
                           <Tooltip>
@@ -119,6 +143,13 @@ export function HistoryTable() {
                             </TooltipTrigger>
                             <TooltipContent><p>Copy Address</p></TooltipContent>
                           </Tooltip>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button variant="ghost" size="icon" className="cursor-pointer"
+                                      onClick={() => setSavingAddress(tx.to)}><BookmarkPlus className="w-4 h-4 text-muted-foreground"/></Button>
+                            </TooltipTrigger>
+                            <TooltipContent><p>{getEntry(tx.to) ? 'Edit Saved Address' : 'Save Counterparty'}</p></TooltipContent>
+                          </Tooltip>
                         </TooltipProvider>
                       </div>
                     </TableCell>
@@ -132,18 +163,18 @@ export function HistoryTable() {
                         className="font-mono text-sm text-muted-foreground cursor-pointer hover:bg-muted/50 hover:underline transition-colors"
                         onClick={() => {
                           if (tx.hash) {
-                            window.open(`https://octrascan.io/tx/${tx.hash}`, '_blank', 'noopener,noreferrer');
+                            window.open(explorerTxUrl(network, tx.hash), '_blank', 'noopener,noreferrer');
                           }
                         }}
                       >
-                        {tx.hash ? `${tx.hash.substring(0, 8)}...${tx.hash.substring(tx.hash.length - 8)}` : 'N/A'}
+                        {formatHash(tx.hash)}
                       </span>
                     </TableCell>
                     <TableCell
                       className="text-right cursor-pointer hover:bg-muted/50 transition-colors"
                       onClick={() => {
                         if (tx.hash) {
-                          window.open(`https://octrascan.io/tx/${tx.hash}`, '_blank', 'noopener,noreferrer');
+                          window.open(explorerTxUrl(network, tx.hash), '_blank', 'noopener,noreferrer');
                         }
                       }}
                     >
@@ -156,6 +187,34 @@ export function HistoryTable() {
                     </TableCell>
                   </TableRow>
                 ))}
+                {failed.map(tx => (
+                  <TableRow key={tx.hash} className="bg-red-50/50">
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <AlertCircle className="h-4 w-4 text-red-500"/>
+                        <span className="text-sm font-medium">FAILED</span>
+                      </div>
+                    </TableCell>
+                    <TableCell colSpan={3}>
+                      <span className="text-sm text-red-600">Could not load this transaction: {tx.error}</span>
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className="font-mono text-sm text-muted-foreground cursor-pointer hover:bg-muted/50 hover:underline transition-colors"
+                        onClick={() => window.open(explorerTxUrl(network, tx.hash), '_blank', 'noopener,noreferrer')}
+                      >
+                        {formatHash(tx.hash)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {tx.epoch && (
+                        <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-200">
+                          <span className="font-mono">E{tx.epoch}</span>
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
               </TableBody>
             </Table>
           </div>
@@ -165,7 +224,21 @@ export function HistoryTable() {
             Showing {history.length} most recent transactions
           </div>
         )}
+        {!isLoading && !error && failed.length > 0 && (
+          <div className="mt-2 flex items-center justify-center gap-2 text-sm text-red-600">
+            {failed.length} transaction{failed.length === 1 ? '' : 's'} failed to load.
+            <Button variant="outline" size="sm" onClick={retryFailed} disabled={!isOnline}>
+              <RefreshCw className="w-4 h-4 mr-2"/>
+              Retry
+            </Button>
+          </div>
+        )}
       </CardContent>
+      <AddressBookEntryDialog
+        open={!!savingAddress}
+        onOpenChange={(open) => !open && setSavingAddress(null)}
+        address={savingAddress ?? undefined}
+      />
     </Card>
   );
 }
\ No newline at end of file
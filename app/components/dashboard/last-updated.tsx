@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { cn } from "@/lib/utils";
+
+// Data older than this is flagged even while online, e.g. when every refresh has been failing
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} h ago`;
+};
+
+// "Updated N min ago", highlighted when the data may be out of date
+export function LastUpdated({ at, className }: { at: number | null; className?: string }) {
+  const isOnline = useOnlineStatus();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (at === null) return null;
+  // The clock only ticks every 30 s; a fresh answer must not read as in the future
+  const age = Math.max(0, now - at);
+  const stale = !isOnline || age > STALE_AFTER_MS;
+
+  return (
+    <p className={cn("text-xs", stale ? "text-yellow-600" : "text-muted-foreground", className)}>
+      Updated {formatAge(age)}{!isOnline && ' · offline'}
+    </p>
+  );
+}
@@ -0,0 +1,171 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ReactNode, useState } from "react";
+import { useNetwork } from "@/context/NetworkContext";
+import { NetworkProfile } from "@/lib/networks";
+import { AlertCircle, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface NetworkSwitcherProps {
+  children: ReactNode;
+}
+
+const NETWORK_FIELDS: { key: 'label' | 'explorerUrl' | 'faucetUrl'; label: string; placeholder: string }[] = [
+  { key: "label", label: "Name", placeholder: "e.g. Devnet" },
+  { key: "explorerUrl", label: "Explorer URL", placeholder: "https://explorer.example.com" },
+  { key: "faucetUrl", label: "Faucet URL (Optional)", placeholder: "https://faucet.example.com" },
+];
+
+export function NetworkSwitcher({ children }: NetworkSwitcherProps) {
+  const { networks, network, selectNetwork, saveNetwork, removeNetwork } = useNetwork();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<NetworkProfile | null>(null);
+  const [error, setError] = useState("");
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setEditing(null);
+    setError("");
+    setOpen(newOpen);
+  };
+
+  const handleSelect = (id: string) => {
+    selectNetwork(id);
+    setOpen(false);
+  };
+
+  const handleAdd = () => {
+    setError("");
+    setEditing({ id: `custom-${Date.now()}`, label: "", rpcUrls: [], explorerUrl: "", faucetUrl: "" });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    setError("");
+    try {
+      saveNetwork(editing);
+      setEditing(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleRemove = (profile: NetworkProfile) => {
+    if (confirm(`Remove the network "${profile.label}"?`)) {
+      removeNetwork(profile.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editing ? "Network Settings" : "Networks"}</DialogTitle>
+          <DialogDescription>
+            {editing
+              ? "Balances, history and transactions use the RPC URLs. Explorer and faucet links use the other URLs."
+              : "Choose which Octra network this client talks to."}
+          </DialogDescription>
+        </DialogHeader>
+        {editing ? (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            {NETWORK_FIELDS.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`network-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`network-${field.key}`}
+                  placeholder={field.placeholder}
+                  value={editing[field.key]}
+                  onChange={(e) => setEditing({ ...editing, [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="network-rpc-urls">RPC URLs</Label>
+              <Textarea
+                id="network-rpc-urls"
+                placeholder={"https://rpc1.example.com\nhttps://rpc2.example.com"}
+                value={editing.rpcUrls.join("\n")}
+                onChange={(e) => setEditing({ ...editing, rpcUrls: e.target.value.split("\n") })}
+                rows={3}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">One per line. Reads use the fastest healthy node and fall back to the others. Custom nodes must be allowed by the server (OCTRA_RPC_ALLOWLIST).</p>
+            </div>
+            <button type="submit" hidden />
+          </form>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <div className="space-y-2 pr-2">
+              {networks.map(profile => (
+                <div key={profile.id} className="flex items-center gap-2 p-3 border rounded-md">
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left cursor-pointer"
+                    onClick={() => handleSelect(profile.id)}
+                  >
+                    <div className="flex items-center gap-2 font-medium">
+                      <span className="truncate">{profile.label}</span>
+                      {profile.id === network.id && <Badge variant="secondary">Active</Badge>}
+                    </div>
+                    <p className="text-xs font-mono text-muted-foreground truncate">
+                      {profile.rpcUrls[0]}{profile.rpcUrls.length > 1 && ` +${profile.rpcUrls.length - 1} more`}
+                    </p>
+                  </button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(profile)}>
+                    <Pencil className="w-4 h-4"/>
+                    <span className="sr-only">Edit</span>
+                  </Button>
+                  {!profile.builtIn && (
+                    <Button variant="ghost" size="icon" onClick={() => handleRemove(profile)}>
+                      <Trash2 className="w-4 h-4 text-red-500"/>
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <DialogFooter>
+          {editing ? (
+            <div className="flex w-full gap-2">
+              <Button className="flex-1" variant="outline" onClick={() => setEditing(null)}>Back</Button>
+              <Button className="flex-1" onClick={handleSave}>Save</Button>
+            </div>
+          ) : (
+            <Button className="w-full" variant="outline" onClick={handleAdd}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Network
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
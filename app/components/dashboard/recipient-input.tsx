@@ -0,0 +1,87 @@
+import { Input } from "@/components/ui/input";
+import { KeyboardEvent, useState } from "react";
+import { useAddressBook } from "@/context/AddressBookContext";
+import { cn } from "@/lib/utils";
+import { getAddressError, getAddressWarning } from "@/lib/address";
+
+// How many address book matches to suggest
+const SUGGESTION_LIMIT = 5;
+
+interface RecipientInputProps {
+  id: string;
+  value: string;
+  onChange: (address: string) => void;
+}
+
+// An address input that autocompletes from the address book by label, tag, note or address
+export function RecipientInput({ id, value, onChange }: RecipientInputProps) {
+  const { getEntry, searchEntries } = useAddressBook();
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const entry = getEntry(value.trim());
+  const suggestions = value.trim() && !entry ? searchEntries(value).slice(0, SUGGESTION_LIMIT) : [];
+  // Only flag addresses that look finished, not ones still being typed or searched by label
+  const addressError = !isFocused && value ? getAddressError(value) : null;
+  const addressWarning = !isFocused && value ? getAddressWarning(value) : null;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      onChange(suggestions[Math.min(highlighted, suggestions.length - 1)].address);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        placeholder="oct... or a saved label"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        autoComplete="off"
+        spellCheck={false}
+      />
+      {addressError && (
+        <p className="mt-1 text-xs text-destructive">{addressError}</p>
+      )}
+      {addressWarning && (
+        <p className="mt-1 text-xs text-yellow-600">{addressWarning}</p>
+      )}
+      {entry && (
+        <p className="mt-1 text-xs text-muted-foreground">Saved as <span className="font-medium text-foreground">{entry.label}</span></p>
+      )}
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 py-1 rounded-md border bg-popover shadow-md">
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={suggestion.address}
+              className={cn("px-2 py-1 cursor-pointer", i === highlighted && "bg-muted")}
+              // mousedown fires before the input loses focus
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onChange(suggestion.address);
+              }}
+            >
+              <p className="text-sm">{suggestion.label}</p>
+              <p className="text-xs font-mono truncate text-muted-foreground">{suggestion.address}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useRpcStatus } from "@/hooks/use-rpc-status";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { cn } from "@/lib/utils";
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+export function RpcStatus() {
+  const { nodes, lastServedBy } = useRpcStatus();
+  const isOnline = useOnlineStatus();
+  const healthyCount = nodes.filter(node => node.healthy).length;
+  const color = !isOnline ? "bg-gray-400" : healthyCount === nodes.length ? "bg-green-500" : healthyCount > 0 ? "bg-yellow-500" : "bg-red-500";
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-2 px-3 h-9 border rounded-md text-xs text-muted-foreground">
+          <span className={cn("w-2 h-2 rounded-full", color)} />
+          {!isOnline ? (
+            <span>Offline</span>
+          ) : lastServedBy ? (
+            <span className="font-mono">{hostOf(lastServedBy.url)} · {lastServedBy.latencyMs} ms</span>
+          ) : (
+            <span>Connecting...</span>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">
+        <div className="space-y-1">
+          {nodes.map(node => (
+            <div key={node.url} className="flex items-center gap-2 font-mono">
+              <span className={cn("w-2 h-2 rounded-full", node.healthy ? "bg-green-500" : "bg-red-500")} />
+              <span>{hostOf(node.url)}{node.transport === 'direct' && ' (direct)'}</span>
+              <span>{node.healthy ? (node.latencyMs !== null ? `${node.latencyMs} ms` : "not checked") : node.lastError}</span>
+            </div>
+          ))}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
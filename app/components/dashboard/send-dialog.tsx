@@ -11,10 +11,16 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { ReactNode, useState } from "react";
-import { useWalletBalance, useSendTransaction } from "@/hooks/use-wallet-data";
-import { Loader2, CheckCircle, XCircle, FileText, List, X } from "lucide-react";
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { useWalletBalance, useSendTransaction, SendTransactionResult } from "@/hooks/use-wallet-data";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { Loader2, CheckCircle, XCircle, FileText, HelpCircle, List, X } from "lucide-react";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { getAddressError, getAddressWarning } from "@/lib/address";
+import { useAddressBook } from "@/context/AddressBookContext";
+import { useNetwork } from "@/context/NetworkContext";
+import { explorerTxUrl } from "@/lib/networks";
+import { RecipientInput } from "./recipient-input";
 
 interface SendDialogProps {
   children: ReactNode;
@@ -28,7 +34,7 @@ interface Recipient {
 
 interface SendResult {
   recipient: Recipient;
-  result: PromiseSettledResult<any>;
+  result: PromiseSettledResult<SendTransactionResult>;
 }
 
 export function SendDialog({ children }: SendDialogProps) {
@@ -43,9 +49,16 @@ export function SendDialog({ children }: SendDialogProps) {
   const [batchMessage, setBatchMessage] = useState('');
 
   const { balance, nonce, isLoading: balanceLoading } = useWalletBalance();
+  const { getEntry } = useAddressBook();
+  const { network } = useNetwork();
   const { sendTransaction, isLoading: isSending } = useSendTransaction();
+  const isOnline = useOnlineStatus();
+  // Cancels the remaining transactions of a batch when the dialog unmounts (e.g. the wallet auto-locks)
+  const sendAbortRef = useRef<AbortController | null>(null);
 
-  const addressRegex = /^oct[1-9A-HJ-NP-Za-km-z]{44}$/;
+  useEffect(() => {
+    return () => sendAbortRef.current?.abort();
+  }, []);
 
   const resetDialog = () => {
     setRecipients([{ address: "", amount: "", message: "" }]);
@@ -80,13 +93,19 @@ export function SendDialog({ children }: SendDialogProps) {
     }
   };
 
-  const parseBatchText = (text: string): string[] => {
-    const lines = text.trim().split('\n').filter(line => line.trim() !== '');
-    return lines.filter(line => addressRegex.test(line));
+  const parseBatchText = (text: string) => {
+    const lines = text.trim().split('\n').map(line => line.trim()).filter(line => line !== '');
+    return {
+      addresses: lines.filter(line => !getAddressError(line)),
+      errors: lines.map(getAddressError).filter((error): error is string => !!error),
+    };
   };
 
   const handleBatchImport = () => {
-    const parsedAddresses = parseBatchText(batchText);
+    const { addresses: parsedAddresses, errors } = parseBatchText(batchText);
+    if (errors.length > 0) {
+      alert(`Skipped ${errors.length} invalid line${errors.length > 1 ? 's' : ''}:\n${errors.join('\n')}`);
+    }
     if (parsedAddresses.length > 0) {
       const newRecipients = parsedAddresses.map(address => ({
         address,
@@ -119,8 +138,9 @@ export function SendDialog({ children }: SendDialogProps) {
 
   const validateForm = () => {
     for (const recipient of recipients) {
-      if (!recipient.address || !addressRegex.test(recipient.address)) {
-        return `Invalid address format: ${recipient.address || 'empty'}`;
+      const addressError = getAddressError(recipient.address);
+      if (addressError) {
+        return addressError;
       }
       const amountNum = parseFloat(recipient.amount || "0");
       if (!recipient.amount || isNaN(amountNum) || amountNum <= 0) {
@@ -140,11 +160,18 @@ export function SendDialog({ children }: SendDialogProps) {
       alert(error);
       return;
     }
+    // Short addresses are usually a dropped character, so they need an explicit yes
+    const warnings = recipients.map(recipient => getAddressWarning(recipient.address)).filter((warning): warning is string => !!warning);
+    if (warnings.length > 0 && !confirm(`${warnings.join('\n')}\n\nSend to ${warnings.length > 1 ? 'these addresses' : 'this address'} anyway?`)) {
+      return;
+    }
     setStep('confirm');
   };
 
   const handleConfirm = async () => {
     setStep('sending');
+    const controller = new AbortController();
+    sendAbortRef.current = controller;
     const allExecutedResults: SendResult[] = [];
     const startNonce = nonce !== undefined ? nonce + 1 : 0;
 
@@ -158,6 +185,7 @@ export function SendDialog({ children }: SendDialogProps) {
 
     let overallIndex = 0;
     for (const batch of batches) {
+      if (controller.signal.aborted) break;
       const transactionPromises = batch.map((recipient, batchIndex) => {
         const transactionNonce = startNonce + overallIndex + batchIndex;
         return sendTransaction({
@@ -165,6 +193,7 @@ export function SendDialog({ children }: SendDialogProps) {
           amount: parseFloat(recipient.amount || "0"),
           _nonce: transactionNonce,
           message: recipient.message || undefined,
+          signal: controller.signal,
         });
       });
 
@@ -232,11 +261,10 @@ export function SendDialog({ children }: SendDialogProps) {
                       <div key={index} className="grid grid-cols-12 gap-2 p-3 border rounded-md relative">
                         <div className="col-span-12">
                           <Label htmlFor={`address-${index}`}>Address</Label>
-                          <Input
+                          <RecipientInput
                             id={`address-${index}`}
-                            placeholder="oct1..."
                             value={recipient.address}
-                            onChange={(e) => handleRecipientChange(index, 'address', e.target.value)}
+                            onChange={(address) => handleRecipientChange(index, 'address', address)}
                           />
                         </div>
                         <div className="col-span-12">
@@ -360,7 +388,10 @@ export function SendDialog({ children }: SendDialogProps) {
                     <div key={i} className="space-y-2 p-3 border rounded-md">
                       <div className="flex flex-col sm:flex-row sm:justify-between">
                         <span className="text-sm text-gray-600">To:</span>
-                        <span className="text-xs font-mono break-all">{r.address}</span>
+                        <span className="text-xs break-all">
+                          {getEntry(r.address) && <span className="font-semibold mr-1">{getEntry(r.address)!.label}</span>}
+                          <span className="font-mono">{r.address}</span>
+                        </span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm text-gray-600">Amount:</span>
@@ -393,10 +424,13 @@ export function SendDialog({ children }: SendDialogProps) {
                   <span>Total Cost:</span><span>{(getTotalAmount() + getTotalFee()).toFixed(6)} OCT</span>
                 </div>
               </div>
+              {!isOnline && (
+                <p className="px-4 text-sm text-yellow-600">You are offline. Reconnect to send these transactions.</p>
+              )}
               <div className="p-4">
                 <DialogFooter className="flex sm:flex-row sm:space-x-4 justify-end p-4 sm:p-2 pb-2 mt-auto">
                   <Button variant="outline" onClick={handleBack} className="w-full sm:w-auto min-w-[120px] mb-2 sm:mb-0">Back</Button>
-                  <Button onClick={handleConfirm} className="w-full sm:w-auto min-w-[120px]">Confirm and Send All</Button>
+                  <Button onClick={handleConfirm} disabled={!isOnline} className="w-full sm:w-auto min-w-[120px]">Confirm and Send All</Button>
                 </DialogFooter>
               </div>
             </div>
@@ -433,14 +467,20 @@ export function SendDialog({ children }: SendDialogProps) {
                     return (
                       <div key={index} className="p-3 border rounded-md">
                         <div className="flex items-center mb-2 font-semibold">
-                          {isSuccess ? <CheckCircle className="h-5 w-5 mr-2 text-green-600"/> : <XCircle className="h-5 w-5 mr-2 text-red-600"/>}
-                          <span>To: <span className="font-mono text-xs">{`${recipient.address.substring(0, 10)}...`}</span></span>
+                          {isSuccess ? (
+                            <CheckCircle className="h-5 w-5 mr-2 text-green-600"/>
+                          ) : txResult?.outcomeUnknown ? (
+                            <HelpCircle className="h-5 w-5 mr-2 text-yellow-600"/>
+                          ) : (
+                            <XCircle className="h-5 w-5 mr-2 text-red-600"/>
+                          )}
+                          <span>To: <span className="font-mono text-xs">{getEntry(recipient.address)?.label ?? `${recipient.address.substring(0, 10)}...`}</span></span>
                         </div>
                         {isSuccess ? (
                           <>
                             {txResult?.txHash && (
                               <div className="text-xs font-mono p-2 rounded break-all underline cursor-pointer"
-                                    onClick={() => window.open(`https://octrascan.io/tx/${txResult.txHash}`, '_blank', 'noopener,noreferrer')}>
+                                    onClick={() => window.open(explorerTxUrl(network, txResult.txHash!), '_blank', 'noopener,noreferrer')}>
                                 {txResult.txHash}
                               </div>
                             )}
@@ -449,7 +489,7 @@ export function SendDialog({ children }: SendDialogProps) {
                             )}
                           </>
                         ) : (
-                          <div className="text-sm text-red-600 p-2 rounded break-all">
+                          <div className={`text-sm p-2 rounded break-all ${txResult?.outcomeUnknown ? 'text-yellow-700' : 'text-red-600'}`}>
                             {errorReason || 'Unknown error occurred'}
                           </div>
                         )}
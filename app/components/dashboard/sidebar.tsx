@@ -1,19 +1,31 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Copy, Droplets, Send } from "lucide-react";
+import { BookUser, Copy, Download, Droplets, Eye, FileSignature, Send } from "lucide-react";
 import { SendDialog } from "./send-dialog";
+import { ExportDialog } from "./export-dialog";
+import { SignMessageDialog } from "./sign-message-dialog";
+import { AddressBookDialog } from "./address-book-dialog";
+import { LastUpdated } from "./last-updated";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useWallet } from "@/context/WalletContext";
+import { useNetwork } from "@/context/NetworkContext";
+import { describeRpcError } from "@/lib/rpc-errors";
+import { explorerAddressUrl } from "@/lib/networks";
 import { useWalletBalance } from "@/hooks/use-wallet-data";
+import { useOnlineStatus } from "@/hooks/use-online-status";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Label } from "@/components/ui/label";
-import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
 import { AlertCircle } from "lucide-react";
 
 export function Sidebar() {
   const { wallet } = useWallet();
-  const { balance, nonce, isLoading, error } = useWalletBalance();
+  const { network } = useNetwork();
+  const { balance, nonce, isLoading, error, updatedAt } = useWalletBalance();
+  const isOnline = useOnlineStatus();
+  const errorInfo = error ? describeRpcError(error) : null;
 
   const handleCopy = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -22,13 +34,19 @@ export function Sidebar() {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Wallet Details</CardTitle>
+        <CardTitle className="flex items-center justify-between">
+          Wallet Details
+          {wallet?.watchOnly && (
+            <Badge variant="outline"><Eye />Watch-only</Badge>
+          )}
+        </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
-        {error && (
+        {errorInfo && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
-            <AlertDescription>{error.message}</AlertDescription>
+            <AlertTitle>{errorInfo.message}</AlertTitle>
+            <AlertDescription>{errorInfo.action}</AlertDescription>
           </Alert>
         )}
         {/* Balance */}
@@ -50,6 +68,7 @@ export function Sidebar() {
             <p className="text-lg font-mono">{nonce}</p>
           )}
         </div>
+        <LastUpdated at={updatedAt} />
 
         <Separator />
 
@@ -61,7 +80,7 @@ export function Sidebar() {
               className="text-sm font-mono break-all text-muted-foreground cursor-pointer hover:underline"
               onClick={() => {
                 if (wallet?.address) {
-                  window.open(`https://octrascan.io/addr/${wallet?.address}`, '_blank', 'noopener,noreferrer');
+                  window.open(explorerAddressUrl(network, wallet.address), '_blank', 'noopener,noreferrer');
                 }
               }}
             >
@@ -77,41 +96,89 @@ export function Sidebar() {
             </TooltipProvider>
           </div>
         </div>
-        <div className="space-y-2">
-          <Label>Public Key</Label>
-          <div className="flex items-center space-x-2">
-            <p className="text-sm font-mono break-all text-muted-foreground">
-              {`${wallet?.publicKey.substring(0, 12)}...`}
-            </p>
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button variant="ghost" size="icon" onClick={() => handleCopy(wallet!.publicKey)}><Copy className="w-4 h-4"/></Button>
-                </TooltipTrigger>
-                <TooltipContent><p>Copy Public Key</p></TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+        {wallet?.publicKey && (
+          <div className="space-y-2">
+            <Label>Public Key</Label>
+            <div className="flex items-center space-x-2">
+              <p className="text-sm font-mono break-all text-muted-foreground">
+                {`${wallet.publicKey.substring(0, 12)}...`}
+              </p>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="ghost" size="icon" onClick={() => handleCopy(wallet.publicKey!)}><Copy className="w-4 h-4"/></Button>
+                  </TooltipTrigger>
+                  <TooltipContent><p>Copy Public Key</p></TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
           </div>
-        </div>
+        )}
 
         <Separator />
 
         <div className="space-y-2">
-          <SendDialog>
-            <Button className="w-full">
-              <Send className="w-4 h-4 mr-2" />
-              Send
-            </Button>
-          </SendDialog>
+          {wallet?.watchOnly ? (
+            <>
+              <Button className="w-full" disabled>
+                <Send className="w-4 h-4 mr-2" />
+                Send
+              </Button>
+              <p className="text-xs text-center text-muted-foreground">This account is read-only. Add its private key to send.</p>
+            </>
+          ) : !isOnline ? (
+            <>
+              <Button className="w-full" disabled>
+                <Send className="w-4 h-4 mr-2" />
+                Send
+              </Button>
+              <p className="text-xs text-center text-muted-foreground">You are offline. Sending is available again once you reconnect.</p>
+            </>
+          ) : (
+            <SendDialog>
+              <Button className="w-full">
+                <Send className="w-4 h-4 mr-2" />
+                Send
+              </Button>
+            </SendDialog>
+          )}
         </div>
-        <div className="space-y-2">
-            <Button className="w-full" variant="outline" onClick={() => {
-              window.open('https://faucet.octra.network/', '_blank', 'noopener,noreferrer');
+        {network.faucetUrl && (
+          <div className="space-y-2">
+            <Button className="w-full" variant="outline" disabled={!isOnline} onClick={() => {
+              window.open(network.faucetUrl, '_blank', 'noopener,noreferrer');
             }}>
               <Droplets className="w-4 h-4 mr-2" />
               Faucet
             </Button>
+          </div>
+        )}
+        <div className="space-y-2">
+          <AddressBookDialog>
+            <Button className="w-full" variant="outline">
+              <BookUser className="w-4 h-4 mr-2" />
+              Address Book
+            </Button>
+          </AddressBookDialog>
+        </div>
+        <div className="space-y-2">
+          <SignMessageDialog>
+            <Button className="w-full" variant="outline">
+              <FileSignature className="w-4 h-4 mr-2" />
+              Sign / Verify Message
+            </Button>
+          </SignMessageDialog>
         </div>
+        {!wallet?.watchOnly && (
+          <div className="space-y-2">
+            <ExportDialog>
+              <Button className="w-full" variant="outline">
+                <Download className="w-4 h-4 mr-2" />
+                Export Wallet File
+              </Button>
+            </ExportDialog>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
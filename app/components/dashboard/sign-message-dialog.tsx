@@ -0,0 +1,161 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ReactNode, useState } from "react";
+import { useWallet } from "@/context/WalletContext";
+import { signMessage, verifySignedMessage } from "@/lib/crypto";
+import { AlertCircle, CheckCircle, Copy } from "lucide-react";
+
+interface SignMessageDialogProps {
+  children: ReactNode;
+}
+
+export function SignMessageDialog({ children }: SignMessageDialogProps) {
+  const { wallet } = useWallet();
+  const [open, setOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState(wallet?.privateKey ? "sign" : "verify");
+  const [message, setMessage] = useState("");
+  const [signedBlob, setSignedBlob] = useState("");
+  const [verifyInput, setVerifyInput] = useState("");
+  const [verifyResult, setVerifyResult] = useState<{ valid: boolean; text: string } | null>(null);
+  const [error, setError] = useState("");
+
+  const resetDialog = () => {
+    setActiveTab(wallet?.privateKey ? "sign" : "verify");
+    setMessage("");
+    setSignedBlob("");
+    setVerifyInput("");
+    setVerifyResult(null);
+    setError("");
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (newOpen) {
+      resetDialog();
+    }
+    setOpen(newOpen);
+  };
+
+  const handleSign = () => {
+    setError("");
+    try {
+      if (!wallet?.privateKey) {
+        throw new Error("This account is watch-only and cannot sign messages.");
+      }
+      if (!message) {
+        throw new Error("Message cannot be empty.");
+      }
+      setSignedBlob(JSON.stringify(signMessage(wallet.privateKey, message), null, 2));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleVerify = () => {
+    setVerifyResult(null);
+    try {
+      let signed;
+      try {
+        signed = JSON.parse(verifyInput);
+      } catch {
+        throw new Error("Signed message must be valid JSON.");
+      }
+      verifySignedMessage(signed);
+      setVerifyResult({ valid: true, text: `Valid signature from ${signed.address}` });
+    } catch (e: any) {
+      setVerifyResult({ valid: false, text: e.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sign / Verify Message</DialogTitle>
+          <DialogDescription>Prove ownership of an address, or check a signature from someone else.</DialogDescription>
+        </DialogHeader>
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="sign" disabled={!wallet?.privateKey}>Sign</TabsTrigger>
+            <TabsTrigger value="verify">Verify</TabsTrigger>
+          </TabsList>
+          <TabsContent value="sign" className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="sign-message">Message</Label>
+              <Textarea
+                id="sign-message"
+                placeholder="Text to sign"
+                value={message}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  setSignedBlob("");
+                }}
+                rows={4}
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {signedBlob && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="signed-blob">Signed Message</Label>
+                  <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(signedBlob)}>
+                    <Copy className="w-4 h-4 mr-1" />
+                    Copy
+                  </Button>
+                </div>
+                <Textarea id="signed-blob" readOnly value={signedBlob} rows={7} className="font-mono text-xs break-all" />
+              </div>
+            )}
+            <Button className="w-full" onClick={handleSign}>Sign Message</Button>
+          </TabsContent>
+          <TabsContent value="verify" className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="verify-blob">Signed Message</Label>
+              <Textarea
+                id="verify-blob"
+                placeholder='{"address": "oct...", "public_key": "...", "message": "...", "signature": "..."}'
+                value={verifyInput}
+                onChange={(e) => {
+                  setVerifyInput(e.target.value);
+                  setVerifyResult(null);
+                }}
+                rows={7}
+                className="font-mono text-xs break-all"
+              />
+            </div>
+            {verifyResult && (
+              verifyResult.valid ? (
+                <div className="flex items-center p-3 space-x-2 text-sm rounded-md bg-muted">
+                  <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600" />
+                  <p className="break-all">{verifyResult.text}</p>
+                </div>
+              ) : (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{verifyResult.text}</AlertDescription>
+                </Alert>
+              )
+            )}
+            <Button className="w-full" onClick={handleVerify} disabled={!verifyInput.trim()}>Verify Signature</Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import useSWR from "swr";
+import { getOctraClient, rpcKeys } from "@/lib/api";
+import { RpcNotFoundError } from "@/lib/rpc-errors";
+import { useNetwork } from "@/context/NetworkContext";
+import { DerivedAccount } from "@/lib/crypto";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface DerivedAccountListProps {
+  accounts: DerivedAccount[];
+  selectedPaths: string[];
+  onToggle: (path: string) => void;
+  onLoadMore: () => void;
+  disabled?: boolean;
+}
+
+function DerivedAccountBalance({ address }: { address: string }) {
+  const { network } = useNetwork();
+  const { data, error, isLoading } = useSWR(
+    rpcKeys.balance(network.rpcUrls, address),
+    ([, urls, address]) => getOctraClient(urls).getBalance(address)
+  );
+
+  if (isLoading) {
+    return <Skeleton className="h-4 w-16" />;
+  }
+  // The node answers 404 for addresses that have never received funds
+  if (error) {
+    return <span className="text-xs text-muted-foreground">{error instanceof RpcNotFoundError ? 'unused' : '—'}</span>;
+  }
+  return <span className="text-xs font-mono">{(data?.balance ?? 0).toFixed(6)} OCT</span>;
+}
+
+export function DerivedAccountList({ accounts, selectedPaths, onToggle, onLoadMore, disabled }: DerivedAccountListProps) {
+  return (
+    <div className="space-y-2">
+      <ScrollArea className="h-[200px] border rounded-md">
+        <div className="p-2 space-y-1">
+          {accounts.map((account) => (
+            <label
+              key={account.path}
+              className="flex items-center gap-2 p-2 rounded-md cursor-pointer hover:bg-muted/50"
+            >
+              <input
+                type="checkbox"
+                checked={selectedPaths.includes(account.path)}
+                onChange={() => onToggle(account.path)}
+                disabled={disabled}
+              />
+              <span className="w-12 text-xs font-mono text-muted-foreground">{account.path}</span>
+              <span className="flex-1 min-w-0 text-xs font-mono truncate">{account.address}</span>
+              <DerivedAccountBalance address={account.address} />
+            </label>
+          ))}
+        </div>
+      </ScrollArea>
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={onLoadMore} disabled={disabled}>
+        Show More Addresses
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { ClipboardEvent, KeyboardEvent, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { cn } from "@/lib/utils";
+import { CheckCircle } from "lucide-react";
+import {
+  checkMnemonic,
+  detectMnemonicLanguage,
+  MNEMONIC_LANGUAGES,
+  MNEMONIC_WORD_COUNTS,
+  MnemonicLanguage,
+  splitMnemonic,
+  suggestWords
+} from "@/lib/mnemonic";
+
+interface MnemonicInputProps {
+  words: string[];
+  onChange: (words: string[]) => void;
+  language: MnemonicLanguage;
+  onLanguageChange: (language: MnemonicLanguage) => void;
+  disabled?: boolean;
+}
+
+// A grid of per-word inputs with wordlist autocomplete
+export function MnemonicInput({ words, onChange, language, onLanguageChange, disabled }: MnemonicInputProps) {
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const check = checkMnemonic(words, language);
+  const isComplete = words.every(word => word.trim());
+  const suggestions = focusedIndex !== null ? suggestWords(words[focusedIndex], language) : [];
+  const showSuggestions = suggestions.length > 0 && !(suggestions.length === 1 && suggestions[0] === words[focusedIndex!].trim());
+
+  const focusWord = (index: number) => {
+    inputRefs.current[Math.min(index, words.length - 1)]?.focus();
+  };
+
+  const handleWordCountChange = (count: number) => {
+    onChange(Array.from({ length: count }, (_, i) => words[i] ?? ""));
+  };
+
+  // Places several words starting at a position, growing the grid if they do not fit
+  const spreadWords = (index: number, newWords: string[]) => {
+    if (index === 0 && MNEMONIC_WORD_COUNTS.includes(newWords.length)) {
+      onChange(newWords);
+    } else {
+      const needed = index + newWords.length;
+      const count = MNEMONIC_WORD_COUNTS.find(c => c >= Math.max(needed, words.length)) ?? MNEMONIC_WORD_COUNTS[MNEMONIC_WORD_COUNTS.length - 1];
+      const next = Array.from({ length: count }, (_, i) => words[i] ?? "");
+      newWords.slice(0, count - index).forEach((word, i) => {
+        next[index + i] = word;
+      });
+      onChange(next);
+    }
+    onLanguageChange(detectMnemonicLanguage(newWords, language));
+    setTimeout(() => focusWord(index + newWords.length), 0);
+  };
+
+  const setWord = (index: number, value: string) => {
+    const next = [...words];
+    next[index] = value;
+    onChange(next);
+    setHighlighted(0);
+  };
+
+  const handleWordChange = (index: number, value: string) => {
+    // Typing a space moves on to the next word
+    if (/\s/.test(value)) {
+      const typed = splitMnemonic(value);
+      if (typed.length > 1) {
+        spreadWords(index, typed);
+      } else {
+        setWord(index, typed[0] ?? "");
+        focusWord(index + 1);
+      }
+      return;
+    }
+    setWord(index, value);
+  };
+
+  const handlePaste = (index: number, e: ClipboardEvent<HTMLInputElement>) => {
+    const pasted = splitMnemonic(e.clipboardData.getData("text"));
+    if (pasted.length > 1) {
+      e.preventDefault();
+      spreadWords(index, pasted);
+    }
+  };
+
+  const acceptSuggestion = (index: number, word: string) => {
+    setWord(index, word);
+    focusWord(index + 1);
+  };
+
+  const handleKeyDown = (index: number, e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Backspace" && !words[index] && index > 0) {
+      e.preventDefault();
+      focusWord(index - 1);
+      return;
+    }
+    if (!showSuggestions) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      acceptSuggestion(index, suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <NativeSelect
+          aria-label="Number of words"
+          value={words.length}
+          onChange={(e) => handleWordCountChange(Number(e.target.value))}
+          disabled={disabled}
+        >
+          {MNEMONIC_WORD_COUNTS.map(count => (
+            <option key={count} value={count}>{count} words</option>
+          ))}
+        </NativeSelect>
+        <NativeSelect
+          aria-label="Wordlist language"
+          value={language}
+          onChange={(e) => onLanguageChange(e.target.value as MnemonicLanguage)}
+          disabled={disabled}
+        >
+          {MNEMONIC_LANGUAGES.map(({ id, label }) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </NativeSelect>
+      </div>
+      <ol className="grid grid-cols-3 gap-2">
+        {words.map((word, index) => (
+          <li key={index} className="relative">
+            <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground pointer-events-none">{index + 1}.</span>
+            <Input
+              ref={(el) => { inputRefs.current[index] = el; }}
+              aria-label={`Word ${index + 1}`}
+              className={cn("pl-7 font-mono", check.unknownWords.includes(index) && focusedIndex !== index && "border-destructive")}
+              value={word}
+              onChange={(e) => handleWordChange(index, e.target.value)}
+              onPaste={(e) => handlePaste(index, e)}
+              onKeyDown={(e) => handleKeyDown(index, e)}
+              onFocus={() => {
+                setFocusedIndex(index);
+                setHighlighted(0);
+              }}
+              onBlur={() => setFocusedIndex(null)}
+              autoComplete="off"
+              autoCapitalize="off"
+              spellCheck={false}
+              disabled={disabled}
+            />
+            {focusedIndex === index && showSuggestions && (
+              <ul className="absolute z-10 left-0 right-0 mt-1 py-1 rounded-md border bg-popover shadow-md">
+                {suggestions.map((suggestion, i) => (
+                  <li
+                    key={suggestion}
+                    className={cn("px-2 py-1 text-sm font-mono cursor-pointer", i === highlighted && "bg-muted")}
+                    // mousedown fires before the input loses focus
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      acceptSuggestion(index, suggestion);
+                    }}
+                  >
+                    {suggestion}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+      {isComplete && (
+        check.error ? (
+          <p className="text-xs text-destructive">{check.error}</p>
+        ) : (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <CheckCircle className="w-4 h-4 text-green-600" /> Valid mnemonic
+          </p>
+        )
+      )}
+    </div>
+  );
+}
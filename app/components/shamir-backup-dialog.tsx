@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Copy, Download } from "lucide-react";
+import { WalletData } from "@/lib/crypto";
+import { MAX_SHARES, splitEntropy } from "@/lib/shamir";
+import { downloadTextFile } from "@/lib/wallet-file";
+
+interface ShamirBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wallet: WalletData;
+}
+
+export function ShamirBackupDialog({ open, onOpenChange, wallet }: ShamirBackupDialogProps) {
+  const [threshold, setThreshold] = useState(2);
+  const [count, setCount] = useState(3);
+  const [shares, setShares] = useState<string[]>([]);
+  const [error, setError] = useState("");
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setShares([]);
+      setError("");
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleCountChange = (value: number) => {
+    setCount(value);
+    setThreshold(Math.min(threshold, value));
+    setShares([]);
+  };
+
+  const handleSplit = () => {
+    setError("");
+    try {
+      setShares(splitEntropy(wallet.entropy_hex, threshold, count));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleDownloadShare = (share: string, index: number) => {
+    const content = `OCTRA WALLET BACKUP SHARE ${index + 1} OF ${count}
+${"=".repeat(50)}
+
+Any ${threshold} of the ${count} shares restore the wallet in the "Shares" tab.
+Fewer than ${threshold} shares reveal nothing about the wallet.
+${wallet.has_passphrase ? "The BIP39 passphrase is also required and is not part of any share.\n" : ""}
+Address: ${wallet.address}
+Share: ${share}
+`;
+    downloadTextFile(`octra_share_${wallet.address.slice(-8)}_${index + 1}_of_${count}.txt`, content);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Split Backup Into Shares</DialogTitle>
+          <DialogDescription>
+            Give each share to a different person or place. Any {threshold} of the {count} shares restore the mnemonic; fewer reveal nothing.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="share-threshold">Shares needed</Label>
+              <NativeSelect
+                id="share-threshold"
+                value={threshold}
+                onChange={(e) => {
+                  setThreshold(Number(e.target.value));
+                  setShares([]);
+                }}
+              >
+                {Array.from({ length: count - 1 }, (_, i) => i + 2).map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="share-count">Total shares</Label>
+              <NativeSelect
+                id="share-count"
+                value={count}
+                onChange={(e) => handleCountChange(Number(e.target.value))}
+              >
+                {Array.from({ length: MAX_SHARES - 1 }, (_, i) => i + 2).map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </NativeSelect>
+            </div>
+          </div>
+          {shares.length > 0 && (
+            <ol className="space-y-2">
+              {shares.map((share, index) => (
+                <li key={share} className="flex items-center gap-2 p-2 rounded-md border">
+                  <span className="w-6 text-xs text-muted-foreground">{index + 1}.</span>
+                  <span className="flex-1 min-w-0 text-xs font-mono break-all">{share}</span>
+                  <Button variant="ghost" size="icon" onClick={() => navigator.clipboard.writeText(share)}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDownloadShare(share, index)}>
+                    <Download className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+          {wallet.has_passphrase && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                The shares restore the mnemonic only. The BIP39 passphrase must be backed up separately.
+              </AlertDescription>
+            </Alert>
+          )}
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+        <DialogFooter>
+          {shares.length > 0 ? (
+            <Button type="button" className="w-full" onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <Button type="button" className="w-full" onClick={handleSplit}>Create Shares</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
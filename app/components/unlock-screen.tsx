@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { useWallet } from "@/context/WalletContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Loader2, LockKeyhole } from "lucide-react";
+
+export function UnlockScreen() {
+  const { unlock, logout, needsMigration, accounts, activeAccount } = useWallet();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [error, setError] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    setError("");
+    setIsUnlocking(true);
+    try {
+      if (!passphrase) {
+        throw new Error("Passphrase cannot be empty.");
+      }
+      if (needsMigration && passphrase !== confirmPassphrase) {
+        throw new Error("Passphrases do not match.");
+      }
+      await unlock(passphrase);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (confirm("This removes the saved wallet from this browser. Make sure you have a backup of your private key or mnemonic. Continue?")) {
+      logout();
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <LockKeyhole size={48} className="text-primary" />
+          </div>
+          <CardTitle>{needsMigration ? "Protect Your Wallet" : "Wallet Locked"}</CardTitle>
+          <CardDescription>
+            {needsMigration
+              ? "Your wallet was saved unencrypted by an older version. Choose a passphrase to encrypt it."
+              : "Enter your passphrase to unlock your wallet"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {activeAccount && (
+            <div className="p-3 text-sm rounded-md bg-muted">
+              <p className="font-medium">{activeAccount.name}</p>
+              <p className="text-xs font-mono text-muted-foreground truncate">{activeAccount.address}</p>
+              {accounts.length > 1 && (
+                <p className="text-xs text-muted-foreground mt-1">and {accounts.length - 1} other account(s)</p>
+              )}
+            </div>
+          )}
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUnlock();
+            }}
+          >
+            <Label htmlFor="unlock-passphrase">Passphrase</Label>
+            <Input
+              id="unlock-passphrase"
+              type="password"
+              autoFocus
+              placeholder="Enter your passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isUnlocking}
+            />
+            {needsMigration && (
+              <>
+                <Label htmlFor="unlock-confirm-passphrase">Confirm Passphrase</Label>
+                <Input
+                  id="unlock-confirm-passphrase"
+                  type="password"
+                  placeholder="Repeat your passphrase"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  disabled={isUnlocking}
+                />
+              </>
+            )}
+            <button type="submit" hidden />
+          </form>
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+        <CardFooter>
+          <div className="flex flex-col gap-2 w-full">
+            <Button className="w-full" onClick={handleUnlock} disabled={isUnlocking}>
+              {isUnlocking ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Unlocking...</>
+              ) : (
+                needsMigration ? "Encrypt and Unlock" : "Unlock"
+              )}
+            </Button>
+            <Button className="w-full" variant="ghost" onClick={handleForget} disabled={isUnlocking}>
+              Forget Saved Wallet
+            </Button>
+          </div>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { MNEMONIC_STRENGTHS, walletFromEntropy, walletFromPrivateKey, WalletData } from "@/lib/crypto";
+import {
+  estimateVanityAttempts,
+  isRareVanityPrefix,
+  validateVanityPattern,
+  VanityMode,
+  VanityPattern,
+  VanityPosition
+} from "@/lib/vanity";
+import { useVanitySearch } from "@/hooks/use-vanity-search";
+
+interface VanityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the matching wallet, ready for the backup step
+  onFound: (wallet: WalletData) => void;
+}
+
+const formatDuration = (seconds: number): string => {
+  if (!isFinite(seconds)) return "unknown";
+  if (seconds < 60) return `${Math.ceil(seconds)} sec`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)} hours`;
+  if (seconds < 86400 * 365) return `${(seconds / 86400).toFixed(1)} days`;
+  return `${(seconds / (86400 * 365)).toFixed(1)} years`;
+};
+
+export function VanityDialog({ open, onOpenChange, onFound }: VanityDialogProps) {
+  const maxWorkers = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 1 : 1;
+  const [text, setText] = useState("");
+  const [position, setPosition] = useState<VanityPosition>("prefix");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [mode, setMode] = useState<VanityMode>("keypair");
+  const [wordCount, setWordCount] = useState(12);
+  const [workerCount, setWorkerCount] = useState(Math.max(1, maxWorkers - 1));
+  const [error, setError] = useState("");
+  const { start, stop, isSearching, attempts, rate, error: searchError } = useVanitySearch();
+
+  const pattern: VanityPattern = { text, position, caseSensitive };
+  const expectedAttempts = text ? estimateVanityAttempts(pattern) : 0;
+  // Chance that a match would have been found by now
+  const progress = expectedAttempts ? 1 - Math.exp(-attempts / expectedAttempts) : 0;
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      stop();
+      setError("");
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleStart = () => {
+    setError("");
+    try {
+      validateVanityPattern(pattern);
+      start({ ...pattern, mode, strength: MNEMONIC_STRENGTHS[wordCount] }, workerCount, (result) => {
+        try {
+          const wallet = mode === "mnemonic"
+            ? walletFromEntropy(Buffer.from(result.secret, "hex"))
+            : walletFromPrivateKey(result.secret);
+          onFound(wallet);
+        } catch (e: any) {
+          setError(e.message);
+        }
+      });
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Vanity Address</DialogTitle>
+          <DialogDescription>
+            Search random wallets for an address with a recognisable prefix or suffix. Every extra character makes the search about 58 times longer.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="w-28 space-y-2">
+              <Label htmlFor="vanity-position">Position</Label>
+              <NativeSelect
+                id="vanity-position"
+                value={position}
+                onChange={(e) => setPosition(e.target.value as VanityPosition)}
+                disabled={isSearching}
+              >
+                <option value="prefix">Prefix</option>
+                <option value="suffix">Suffix</option>
+              </NativeSelect>
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="vanity-text">Characters</Label>
+              <Input
+                id="vanity-text"
+                placeholder={position === "prefix" ? "After oct, e.g. Cafe" : "e.g. Hot"}
+                value={text}
+                onChange={(e) => setText(e.target.value.trim())}
+                disabled={isSearching}
+                spellCheck={false}
+                autoComplete="off"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={caseSensitive}
+              onChange={(e) => setCaseSensitive(e.target.checked)}
+              disabled={isSearching}
+            />
+            Case sensitive
+          </label>
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="vanity-mode">Search</Label>
+              <NativeSelect
+                id="vanity-mode"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as VanityMode)}
+                disabled={isSearching}
+              >
+                <option value="keypair">Random key pairs (fast)</option>
+                <option value="mnemonic">Mnemonics (slow)</option>
+              </NativeSelect>
+            </div>
+            {mode === "mnemonic" && (
+              <div className="w-32 space-y-2">
+                <Label htmlFor="vanity-word-count">Words</Label>
+                <NativeSelect
+                  id="vanity-word-count"
+                  value={wordCount}
+                  onChange={(e) => setWordCount(Number(e.target.value))}
+                  disabled={isSearching}
+                >
+                  {Object.keys(MNEMONIC_STRENGTHS).map(words => (
+                    <option key={words} value={words}>{words} words</option>
+                  ))}
+                </NativeSelect>
+              </div>
+            )}
+            <div className="w-24 space-y-2">
+              <Label htmlFor="vanity-workers">Workers</Label>
+              <NativeSelect
+                id="vanity-workers"
+                value={workerCount}
+                onChange={(e) => setWorkerCount(Number(e.target.value))}
+                disabled={isSearching}
+              >
+                {Array.from({ length: maxWorkers }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </NativeSelect>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {mode === "keypair"
+              ? "Key pair wallets have no mnemonic. Back up the private key itself."
+              : "Each mnemonic runs the full BIP39 derivation, so this mode is much slower but gives a mnemonic backup."}
+          </p>
+          {isRareVanityPrefix(pattern) && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Addresses almost always start with oct followed by 2-9 or A-H. A prefix starting with &quot;{text[0]}&quot; is about 58 times harder to find.
+              </AlertDescription>
+            </Alert>
+          )}
+          {text && (
+            <div className="p-3 space-y-1 text-sm rounded-md bg-muted">
+              <p>Expected attempts: {Math.round(expectedAttempts).toLocaleString()}</p>
+              {(isSearching || attempts > 0) && (
+                <>
+                  <p>Tried: {attempts.toLocaleString()} ({Math.round(rate).toLocaleString()} / sec)</p>
+                  <p>Estimated time: {rate > 0 ? formatDuration(Math.max(expectedAttempts - attempts, 0) / rate) : "measuring..."}</p>
+                  <div className="h-2 rounded-full bg-background overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${(progress * 100).toFixed(1)}%` }} />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          {(error || searchError) && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error || searchError}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+        <DialogFooter>
+          {isSearching ? (
+            <Button type="button" variant="outline" className="w-full" onClick={stop}>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Cancel Search
+            </Button>
+          ) : (
+            <Button type="button" className="w-full" onClick={handleStart}>Start Search</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,42 +1,140 @@
 "use client";
 
 import { useState } from "react";
-import { useWallet } from "@/context/WalletContext";
+import { NewAccount, useWallet } from "@/context/WalletContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle
-} from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { LockKeyhole, Wallet, Loader2, AlertCircle, CircleAlert, Download } from "lucide-react";
+import { LockKeyhole, Wallet, Loader2, AlertCircle, CircleAlert } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import Link from "next/link";
-import { createWallet, WalletData, derivePrivateKeyFromMnemonic } from "@/lib/crypto";
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  derivePrivateKeyFromMnemonic,
+  deriveAccountsFromMnemonic,
+  DerivedAccount,
+  normalizePrivateKey,
+  PRIVATE_KEY_FORMAT_LABELS,
+  walletFromEntropy,
+  WalletData
+} from "@/lib/crypto";
+import { combineShares } from "@/lib/shamir";
+import { Textarea } from "@/components/ui/textarea";
+import { checkMnemonic, MnemonicLanguage } from "@/lib/mnemonic";
+import { MnemonicInput } from "./mnemonic-input";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { DerivedAccountList } from "./derived-account-list";
+import { parseWalletFile, ParsedWalletFile } from "@/lib/wallet-file";
+import { CreateWalletDialog } from "./create-wallet-dialog";
+import { VanityDialog } from "./vanity-dialog";
+
+const DERIVED_ACCOUNTS_PAGE_SIZE = 5;
 
-export function WalletSetup() {
-  const { login } = useWallet();
+interface WalletSetupProps {
+  // Set when adding another account to an unlocked wallet
+  onDone?: () => void;
+}
+
+export function WalletSetup({ onDone }: WalletSetupProps) {
+  const { wallet, login, addAccounts } = useWallet();
+  const isAddingAccount = !!wallet;
+  const [accountName, setAccountName] = useState("");
   const [privateKey, setPrivateKey] = useState("");
-  const [mnemonic, setMnemonic] = useState("");
+  const [mnemonicWords, setMnemonicWords] = useState<string[]>(Array(12).fill(""));
+  const [mnemonicLanguage, setMnemonicLanguage] = useState<MnemonicLanguage>("english");
+  const [bip39Passphrase, setBip39Passphrase] = useState("");
+  const [watchAddress, setWatchAddress] = useState("");
+  const [shareText, setShareText] = useState("");
+  const [recoveredWallet, setRecoveredWallet] = useState<WalletData | null>(null);
+  const [walletFile, setWalletFile] = useState<ParsedWalletFile | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
   const [error, setError] = useState("");
   const [isConnecting, setIsConnecting] = useState(false);
-  const [isCreating, setIsCreating] = useState(false);
-  const [newWallet, setNewWallet] = useState<WalletData | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isVanityDialogOpen, setIsVanityDialogOpen] = useState(false);
+  const [vanityWallet, setVanityWallet] = useState<WalletData | null>(null);
   const [activeTab, setActiveTab] = useState("private-key");
+  const [derivedAccounts, setDerivedAccounts] = useState<DerivedAccount[]>([]);
+  const [selectedPaths, setSelectedPaths] = useState<string[]>(["m"]);
+
+  const detectedKey = (() => {
+    try {
+      return privateKey.trim() ? normalizePrivateKey(privateKey) : null;
+    } catch {
+      return null;
+    }
+  })();
+
+  const connectKeys = async (newAccounts: NewAccount[]) => {
+    if (isAddingAccount) {
+      await addAccounts(newAccounts);
+      onDone?.();
+    } else {
+      if (passphrase !== confirmPassphrase) {
+        throw new Error("Passphrases do not match.");
+      }
+      await login(newAccounts, passphrase);
+    }
+  };
+
+  const handleMnemonicChange = (words: string[]) => {
+    setMnemonicWords(words);
+    setDerivedAccounts([]);
+    setSelectedPaths(["m"]);
+  };
+
+  const handleBip39PassphraseChange = (value: string) => {
+    setBip39Passphrase(value);
+    setDerivedAccounts([]);
+    setSelectedPaths(["m"]);
+    setRecoveredWallet(null);
+  };
 
-  const handleCopy = (text: string) => {
-    navigator.clipboard.writeText(text);
+  const recoverFromShares = (): WalletData => {
+    const shares = shareText.split("\n").map(line => line.trim()).filter(Boolean);
+    const recovered = walletFromEntropy(Buffer.from(combineShares(shares), "hex"), bip39Passphrase);
+    setRecoveredWallet(recovered);
+    return recovered;
   };
 
-  const handleConnect = () => {
+  const handleCombineShares = () => {
+    setError("");
+    try {
+      recoverFromShares();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  // The grid's words as a phrase, or an error pointing at the first wrong word
+  const getMnemonic = (): string => {
+    if (mnemonicWords.every(word => !word.trim())) {
+      throw new Error("Mnemonic phrase cannot be empty.");
+    }
+    const { error } = checkMnemonic(mnemonicWords, mnemonicLanguage);
+    if (error) {
+      throw new Error(error);
+    }
+    return mnemonicWords.map(word => word.trim()).join(" ");
+  };
+
+  const handleShowDerived = () => {
+    setError("");
+    try {
+      const mnemonic = getMnemonic();
+      const count = derivedAccounts.length > 0 ? derivedAccounts.length - 1 + DERIVED_ACCOUNTS_PAGE_SIZE : DERIVED_ACCOUNTS_PAGE_SIZE;
+      setDerivedAccounts(deriveAccountsFromMnemonic(mnemonic, count, bip39Passphrase));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleTogglePath = (path: string) => {
+    setSelectedPaths(prev => prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]);
+  };
+
+  const handleConnect = async () => {
     setError("");
     setIsConnecting(true);
     try {
@@ -44,13 +142,37 @@ export function WalletSetup() {
         if (!privateKey) {
           throw new Error("Private key cannot be empty.");
         }
-        login(privateKey);
+        await connectKeys([{ privateKey, name: accountName }]);
+      } else if (activeTab === "file") {
+        if (!walletFile) {
+          throw new Error("Choose a wallet file to import.");
+        }
+        await connectKeys([{ privateKey: walletFile.privateKey, name: accountName }]);
+      } else if (activeTab === "watch-only") {
+        if (!watchAddress) {
+          throw new Error("Address cannot be empty.");
+        }
+        await connectKeys([{ watchAddress, name: accountName }]);
+      } else if (activeTab === "shares") {
+        if (!shareText.trim()) {
+          throw new Error("Enter your backup shares.");
+        }
+        const recovered = recoveredWallet ?? recoverFromShares();
+        await connectKeys([{ privateKey: recovered.private_key_b64, name: accountName }]);
       } else {
-        if (!mnemonic) {
-          throw new Error("Mnemonic phrase cannot be empty.");
+        if (derivedAccounts.length === 0) {
+          const derivedPrivateKey = derivePrivateKeyFromMnemonic(getMnemonic(), { passphrase: bip39Passphrase });
+          await connectKeys([{ privateKey: derivedPrivateKey, name: accountName }]);
+        } else {
+          const selected = derivedAccounts.filter(account => selectedPaths.includes(account.path));
+          if (selected.length === 0) {
+            throw new Error("Select at least one address to add.");
+          }
+          await connectKeys(selected.map(account => ({
+            privateKey: account.privateKey,
+            name: selected.length === 1 ? accountName : `${accountName.trim() || "Account"} (${account.path})`,
+          })));
         }
-        const derivedPrivateKey = derivePrivateKeyFromMnemonic(mnemonic.trim());
-        login(derivedPrivateKey);
       }
     } catch (e: any) {
       setError(e.message);
@@ -61,60 +183,27 @@ export function WalletSetup() {
 
   const handleCreate = () => {
     setError("");
-    setIsCreating(true);
+    setVanityWallet(null);
+    setIsCreateDialogOpen(true);
+  };
+
+  const handleVanityFound = (found: WalletData) => {
+    setIsVanityDialogOpen(false);
+    setVanityWallet(found);
     setIsCreateDialogOpen(true);
+  };
+
+  const handleWalletFile = async (file: File | undefined) => {
+    setError("");
+    setWalletFile(null);
+    if (!file) return;
     try {
-      const walletData = createWallet();
-      setNewWallet(walletData);
+      setWalletFile(parseWalletFile(await file.text()));
     } catch (e: any) {
       setError(e.message);
-    } finally {
-      setIsCreating(false);
     }
   };
 
-  const handleDownloadWallet = () => {
-    if (!newWallet) return;
-
-    const data = newWallet;
-    const timestamp: number = Math.floor(Date.now() / 1000);
-    const filename: string = `octra_wallet_${data.address.slice(-8)}_${timestamp}.txt`;
-
-    const content: string = `OCTRA WALLET
-${"=".repeat(50)}
-
-SECURITY WARNING: KEEP THIS FILE SECURE AND NEVER SHARE YOUR PRIVATE KEY OR MNEMONIC
-
-Generated: ${new Date().toISOString().replace("T", " ").slice(0, 19)}
-Address Format: oct + Base58(SHA256(pubkey))
-
-Mnemonic: ${data.mnemonic.join(" ")}
-Private Key (B64): ${data.private_key_b64}
-Public Key (B64): ${data.public_key_b64}
-Address: ${data.address}
-
-Technical Details:
-Entropy: ${data.entropy_hex}
-Seed: ${data.seed_hex}
-Master Chain Code: ${data.master_chain_hex}
-Signature Algorithm: Ed25519
-Derivation: BIP39-compatible (PBKDF2-HMAC-SHA512, 2048 iterations)
-Test Message: ${data.test_message}
-Test Signature: ${data.test_signature}
-Signature Valid: ${data.signature_valid}
-`;
-
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   return (
     <>
       <div className="flex items-center justify-center min-h-screen">
@@ -123,38 +212,171 @@ Signature Valid: ${data.signature_valid}
             <div className="flex justify-center mb-4">
               <Wallet size={48} className="text-primary" />
             </div>
-            <CardTitle>Octra Web Client</CardTitle>
-            <CardDescription>Connect your wallet using a private key or mnemonic phrase</CardDescription>
+            <CardTitle>{isAddingAccount ? "Add Account" : "Octra Web Client"}</CardTitle>
+            <CardDescription>
+              {isAddingAccount
+                ? "Add another account using a private key or mnemonic phrase"
+                : "Connect your wallet using a private key or mnemonic phrase"}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="private-key">Private Key</TabsTrigger>
                 <TabsTrigger value="mnemonic">Mnemonic</TabsTrigger>
+                <TabsTrigger value="file">File</TabsTrigger>
+                <TabsTrigger value="shares">Shares</TabsTrigger>
+                <TabsTrigger value="watch-only">Watch-only</TabsTrigger>
               </TabsList>
               <TabsContent value="private-key" className="space-y-2">
                 <Label htmlFor="private-key">Private Key</Label>
                 <Input
                   id="private-key"
                   type="password"
-                  placeholder="Enter your Base64 private key"
+                  placeholder="Base64, hex or Base58 private key"
                   value={privateKey}
                   onChange={(e) => setPrivateKey(e.target.value)}
-                  disabled={isConnecting || isCreating}
+                  disabled={isConnecting}
                 />
+                {detectedKey && (
+                  <p className="text-xs text-muted-foreground">
+                    Detected {PRIVATE_KEY_FORMAT_LABELS[detectedKey.format]} {detectedKey.isSecretKey ? "64-byte secret key" : "32-byte seed"}.
+                  </p>
+                )}
               </TabsContent>
               <TabsContent value="mnemonic" className="space-y-2">
-                <Label htmlFor="mnemonic">Mnemonic Phrase</Label>
+                <Label>Mnemonic Phrase</Label>
+                <MnemonicInput
+                  words={mnemonicWords}
+                  onChange={handleMnemonicChange}
+                  language={mnemonicLanguage}
+                  onLanguageChange={setMnemonicLanguage}
+                  disabled={isConnecting}
+                />
+                <Label htmlFor="mnemonic-passphrase">BIP39 Passphrase (Optional)</Label>
+                <Input
+                  id="mnemonic-passphrase"
+                  type="password"
+                  placeholder="Only if the wallet was created with one"
+                  value={bip39Passphrase}
+                  onChange={(e) => handleBip39PassphraseChange(e.target.value)}
+                  disabled={isConnecting}
+                />
+                {derivedAccounts.length > 0 ? (
+                  <DerivedAccountList
+                    accounts={derivedAccounts}
+                    selectedPaths={selectedPaths}
+                    onToggle={handleTogglePath}
+                    onLoadMore={handleShowDerived}
+                    disabled={isConnecting}
+                  />
+                ) : (
+                  <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleShowDerived} disabled={isConnecting}>
+                    Show Derived Addresses
+                  </Button>
+                )}
+              </TabsContent>
+              <TabsContent value="file" className="space-y-2">
+                <Label htmlFor="wallet-file">Wallet File</Label>
+                <Input
+                  id="wallet-file"
+                  type="file"
+                  accept=".txt,.json,text/plain,application/json"
+                  onChange={(e) => handleWalletFile(e.target.files?.[0])}
+                  disabled={isConnecting}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Accepts the <span className="font-mono">octra_wallet_*.txt</span> file from this client or the official client&apos;s <span className="font-mono">wallet.json</span>.
+                </p>
+                {walletFile && (
+                  <div className="p-3 text-xs rounded-md bg-muted">
+                    <p>Format: {walletFile.format === "cli-json" ? "Official client wallet.json" : "Octra wallet text file"}</p>
+                    <p className="font-mono break-all">{walletFile.address}</p>
+                  </div>
+                )}
+              </TabsContent>
+              <TabsContent value="shares" className="space-y-2">
+                <Label htmlFor="backup-shares">Backup Shares</Label>
+                <Textarea
+                  id="backup-shares"
+                  placeholder="One octshare-... per line"
+                  value={shareText}
+                  onChange={(e) => {
+                    setShareText(e.target.value);
+                    setRecoveredWallet(null);
+                  }}
+                  rows={4}
+                  className="font-mono text-xs break-all"
+                  disabled={isConnecting}
+                />
+                <Label htmlFor="shares-passphrase">BIP39 Passphrase (Optional)</Label>
+                <Input
+                  id="shares-passphrase"
+                  type="password"
+                  placeholder="Only if the wallet was created with one"
+                  value={bip39Passphrase}
+                  onChange={(e) => handleBip39PassphraseChange(e.target.value)}
+                  disabled={isConnecting}
+                />
+                {recoveredWallet ? (
+                  <div className="p-3 space-y-1 text-xs rounded-md bg-muted">
+                    <p>Recovered mnemonic:</p>
+                    <p className="font-mono">{recoveredWallet.mnemonic.join(" ")}</p>
+                    <p className="font-mono break-all">{recoveredWallet.address}</p>
+                  </div>
+                ) : (
+                  <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleCombineShares} disabled={isConnecting}>
+                    Combine Shares
+                  </Button>
+                )}
+              </TabsContent>
+              <TabsContent value="watch-only" className="space-y-2">
+                <Label htmlFor="watch-address">Address</Label>
                 <Input
-                  id="mnemonic"
+                  id="watch-address"
                   type="text"
-                  placeholder="Enter your 12-word mnemonic phrase"
-                  value={mnemonic}
-                  onChange={(e) => setMnemonic(e.target.value)}
-                  disabled={isConnecting || isCreating}
+                  placeholder="oct..."
+                  value={watchAddress}
+                  onChange={(e) => setWatchAddress(e.target.value)}
+                  disabled={isConnecting}
                 />
+                <p className="text-xs text-muted-foreground">
+                  Watch-only accounts show balance and history, but cannot send transactions.
+                </p>
               </TabsContent>
             </Tabs>
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Account Name (Optional)</Label>
+              <Input
+                id="account-name"
+                type="text"
+                placeholder="e.g. Personal"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value.slice(0, 32))}
+                disabled={isConnecting}
+              />
+            </div>
+            {!isAddingAccount && (
+              <div className="space-y-2">
+                <Label htmlFor="passphrase">Passphrase</Label>
+                <Input
+                  id="passphrase"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  disabled={isConnecting}
+                />
+                <Input
+                  id="confirm-passphrase"
+                  type="password"
+                  placeholder="Repeat your passphrase"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  disabled={isConnecting}
+                />
+              </div>
+            )}
             {error && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
@@ -163,7 +385,7 @@ Signature Valid: ${data.signature_valid}
             )}
             <div className="flex items-center p-3 space-x-2 text-sm rounded-md bg-muted text-muted-foreground">
               <LockKeyhole className="w-5 h-5 mt-0.5 flex-shrink-0" />
-              <p>Your private key and mnemonic are stored securely in your browser&apos;s local storage and never sent to any server.</p>
+              <p>Your private key is encrypted with your passphrase before it is stored in your browser&apos;s local storage, and it is never sent to any server.</p>
             </div>
             <div className="flex items-center p-3 space-x-2 text-sm rounded-md bg-muted text-muted-foreground">
               <CircleAlert className="w-5 h-5 mt-0.5 flex-shrink-0" />
@@ -175,102 +397,42 @@ Signature Valid: ${data.signature_valid}
           </CardContent>
           <CardFooter>
             <div className="flex flex-col gap-2 w-full">
-              <Button className="w-full" onClick={handleConnect} disabled={isConnecting || isCreating}>
+              <Button className="w-full" onClick={handleConnect} disabled={isConnecting}>
                 {isConnecting ? (
                   <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Connecting...</>
                 ) : (
-                  "Connect Wallet"
+                  isAddingAccount ? "Add Account" : "Connect Wallet"
                 )}
               </Button>
-              <Button className="w-full" variant="secondary" onClick={handleCreate} disabled={isConnecting || isCreating}>
-                {isCreating ? (
-                  <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Creating...</>
-                ) : (
-                  "Create New Wallet"
-                )}
+              <Button className="w-full" variant="secondary" onClick={handleCreate} disabled={isConnecting}>
+                Create New Wallet
               </Button>
+              <Button className="w-full" variant="outline" onClick={() => setIsVanityDialogOpen(true)} disabled={isConnecting}>
+                Create Vanity Address
+              </Button>
+              {onDone && (
+                <Button className="w-full" variant="ghost" onClick={onDone} disabled={isConnecting}>
+                  Cancel
+                </Button>
+              )}
             </div>
           </CardFooter>
         </Card>
       </div>
 
-      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Wallet Created Successfully</DialogTitle>
-            <DialogDescription>
-              Your new wallet has been created. Please save your mnemonic phrase and private key securely.
-              <strong> You will not be able to recover them if you lose them.</strong>
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="new-mnemonic">Mnemonic Phrase</Label>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Input
-                      id="new-mnemonic"
-                      className="cursor-pointer"
-                      readOnly
-                      onClick={() => handleCopy(newWallet?.mnemonic.join(" ") || "")}
-                      value={newWallet?.mnemonic.join(" ") || ""}
-                    />
-                  </TooltipTrigger>
-                  <TooltipContent><p>Click to copy</p></TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="new-address">Wallet Address</Label>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Input
-                      id="new-address"
-                      className="cursor-pointer"
-                      readOnly
-                      onClick={() => handleCopy(newWallet?.address || "")}
-                      value={newWallet?.address || ""}
-                    />
-                  </TooltipTrigger>
-                  <TooltipContent><p>Click to copy</p></TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="new-private-key">Private Key</Label>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Input
-                      id="new-private-key"
-                      type="password"
-                      className="cursor-pointer"
-                      readOnly
-                      onClick={() => handleCopy(newWallet?.private_key_b64 || "")}
-                      value={newWallet?.private_key_b64 || ""}
-                    />
-                  </TooltipTrigger>
-                  <TooltipContent><p>Click to copy</p></TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-            </div>
-            <Alert variant="destructive">
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>
-                <strong>Important:</strong> Do not share your mnemonic phrase or private key with anyone. Store them in a safe and secure place.
-              </AlertDescription>
-            </Alert>
-          </div>
-          <DialogFooter>
-            <Button type="button" className="w-full" onClick={handleDownloadWallet}>
-              <Download className="mr-2 h-4 w-4" />
-              Download Wallet File
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <CreateWalletDialog
+        key={vanityWallet?.address ?? "new"}
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        onDone={onDone}
+        initialWallet={vanityWallet}
+      />
+
+      <VanityDialog
+        open={isVanityDialogOpen}
+        onOpenChange={setIsVanityDialogOpen}
+        onFound={handleVanityFound}
+      />
     </>
   );
 }
\ No newline at end of file
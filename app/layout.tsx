@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { WalletProvider } from "@/context/WalletContext";
+import { AddressBookProvider } from "@/context/AddressBookContext";
+import { NetworkProvider } from "@/context/NetworkContext";
 import { SpeedInsights } from "@vercel/speed-insights/next"
 import { Analytics } from "@vercel/analytics/next"
 import { Footer } from "@/app/components/footer";
@@ -31,7 +33,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} bg-background text-foreground dark`}
       >
-        <WalletProvider>{children}</WalletProvider>
+        <NetworkProvider>
+          <WalletProvider>
+            <AddressBookProvider>{children}</AddressBookProvider>
+          </WalletProvider>
+        </NetworkProvider>
         <Footer />
         <Analytics />
         <SpeedInsights />
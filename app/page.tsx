@@ -3,10 +3,11 @@
 import { useWallet } from "@/context/WalletContext";
 import { WalletSetup } from "./components/wallet-setup";
 import { Dashboard } from "./components/dashboard"; // We will create this next
+import { UnlockScreen } from "./components/unlock-screen";
 import { Loader2 } from "lucide-react";
 
 export default function Home() {
-  const { wallet, isLoading } = useWallet();
+  const { wallet, isLoading, isLocked } = useWallet();
 
   if (isLoading) {
     return (
@@ -16,5 +17,9 @@ export default function Home() {
     );
   }
 
+  if (isLocked) {
+    return <UnlockScreen />;
+  }
+
   return wallet ? <Dashboard /> : <WalletSetup />;
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+"use client";
+
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { validateAddress } from '@/lib/address';
+
+const ADDRESS_BOOK_STORAGE_KEY = 'octraAddressBook';
+
+// A saved counterparty; the address is its id
+export interface AddressBookEntry {
+  address: string;
+  label: string;
+  note: string;
+  tags: string[];
+}
+
+interface AddressBookContextType {
+  entries: AddressBookEntry[];
+  getEntry: (address: string) => AddressBookEntry | undefined;
+  // Adds the entry, or replaces the entry with the same address
+  saveEntry: (entry: AddressBookEntry) => void;
+  removeEntry: (address: string) => void;
+  // Entries whose label, address, note or tags contain the query
+  searchEntries: (query: string) => AddressBookEntry[];
+}
+
+const AddressBookContext = createContext<AddressBookContextType | undefined>(undefined);
+
+// Entries read from storage are checked, so a malformed one cannot break rendering later
+const isAddressBookEntry = (value: unknown): value is AddressBookEntry =>
+  typeof value === 'object' && value !== null
+  && 'address' in value && typeof value.address === 'string'
+  && 'label' in value && typeof value.label === 'string'
+  && 'note' in value && typeof value.note === 'string'
+  && 'tags' in value && Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string');
+
+export function AddressBookProvider({ children }: { children: ReactNode }) {
+  const [entries, setEntries] = useState<AddressBookEntry[]>([]);
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(ADDRESS_BOOK_STORAGE_KEY);
+      if (saved) {
+        const parsed: unknown = JSON.parse(saved);
+        setEntries(Array.isArray(parsed) ? parsed.filter(isAddressBookEntry) : []);
+      }
+    } catch (error) {
+      console.error("Failed to load address book", error);
+      localStorage.removeItem(ADDRESS_BOOK_STORAGE_KEY);
+    }
+  }, []);
+
+  const updateEntries = (update: (current: AddressBookEntry[]) => AddressBookEntry[]) => {
+    setEntries(current => {
+      const next = update(current);
+      localStorage.setItem(ADDRESS_BOOK_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const getEntry = (address: string) => entries.find(entry => entry.address === address);
+
+  const saveEntry = (entry: AddressBookEntry) => {
+    const address = entry.address.trim();
+    validateAddress(address);
+    const label = entry.label.trim();
+    if (!label) {
+      throw new Error('Label cannot be empty.');
+    }
+    const saved: AddressBookEntry = {
+      address,
+      label: label.slice(0, 32),
+      note: entry.note.trim(),
+      tags: [...new Set(entry.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))],
+    };
+    updateEntries(current => {
+      const index = current.findIndex(e => e.address === address);
+      return index === -1
+        ? [...current, saved].sort((a, b) => a.label.localeCompare(b.label))
+        : current.map((e, i) => (i === index ? saved : e));
+    });
+  };
+
+  const removeEntry = (address: string) => {
+    updateEntries(current => current.filter(entry => entry.address !== address));
+  };
+
+  const searchEntries = (query: string) => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(entry =>
+      entry.label.toLowerCase().includes(q)
+      || entry.address.toLowerCase().includes(q)
+      || entry.note.toLowerCase().includes(q)
+      || entry.tags.some(tag => tag.includes(q))
+    );
+  };
+
+  return (
+    <AddressBookContext.Provider value={{ entries, getEntry, saveEntry, removeEntry, searchEntries }}>
+      {children}
+    </AddressBookContext.Provider>
+  );
+}
+
+export function useAddressBook() {
+  const context = useContext(AddressBookContext);
+  if (context === undefined) {
+    throw new Error('useAddressBook must be used within an AddressBookProvider');
+  }
+  return context;
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { DEFAULT_NETWORK, DEFAULT_NETWORKS, isNetworkProfile, NetworkProfile, normalizeNetworkProfile } from '@/lib/networks';
+
+const NETWORKS_STORAGE_KEY = 'octraNetworks';
+const ACTIVE_NETWORK_STORAGE_KEY = 'octraActiveNetwork';
+
+interface NetworkContextType {
+  networks: NetworkProfile[];
+  // The selected network; RPC calls and explorer links follow it
+  network: NetworkProfile;
+  selectNetwork: (id: string) => void;
+  // Adds the profile, or replaces the profile with the same id
+  saveNetwork: (profile: NetworkProfile) => void;
+  removeNetwork: (id: string) => void;
+}
+
+const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
+
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const [networks, setNetworks] = useState<NetworkProfile[]>(DEFAULT_NETWORKS);
+  const [activeId, setActiveId] = useState(DEFAULT_NETWORK.id);
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(NETWORKS_STORAGE_KEY);
+      if (saved) {
+        const stored: unknown = JSON.parse(saved);
+        // Malformed profiles are dropped rather than breaking every RPC call
+        const parsed = Array.isArray(stored) ? stored.filter(isNetworkProfile) : [];
+        // Built-in profiles missing from older saves are added back
+        const missing = DEFAULT_NETWORKS.filter(builtIn => !parsed.some(n => n.id === builtIn.id));
+        setNetworks([...missing, ...parsed]);
+      }
+      setActiveId(localStorage.getItem(ACTIVE_NETWORK_STORAGE_KEY) ?? DEFAULT_NETWORK.id);
+    } catch (error) {
+      console.error("Failed to load network profiles", error);
+      localStorage.removeItem(NETWORKS_STORAGE_KEY);
+    }
+  }, []);
+
+  const updateNetworks = (next: NetworkProfile[]) => {
+    setNetworks(next);
+    localStorage.setItem(NETWORKS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const selectNetwork = (id: string) => {
+    setActiveId(id);
+    localStorage.setItem(ACTIVE_NETWORK_STORAGE_KEY, id);
+  };
+
+  const saveNetwork = (profile: NetworkProfile) => {
+    const normalized = normalizeNetworkProfile(profile);
+    const exists = networks.some(n => n.id === normalized.id);
+    updateNetworks(exists
+      ? networks.map(n => (n.id === normalized.id ? { ...normalized, builtIn: n.builtIn } : n))
+      : [...networks, { ...normalized, builtIn: false }]);
+  };
+
+  const removeNetwork = (id: string) => {
+    const target = networks.find(n => n.id === id);
+    if (!target || target.builtIn) return;
+    updateNetworks(networks.filter(n => n.id !== id));
+    if (activeId === id) {
+      selectNetwork(DEFAULT_NETWORK.id);
+    }
+  };
+
+  const network = networks.find(n => n.id === activeId) ?? networks[0] ?? DEFAULT_NETWORK;
+
+  return (
+    <NetworkContext.Provider value={{ networks, network, selectNetwork, saveNetwork, removeNetwork }}>
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+export function useNetwork() {
+  const context = useContext(NetworkContext);
+  if (context === undefined) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+}
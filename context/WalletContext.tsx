@@ -1,68 +1,363 @@
 "use client";
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { validatePrivateKey, deriveAddress, derivePublicKey } from '@/lib/crypto';
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { normalizePrivateKey, deriveAddress, derivePublicKey } from '@/lib/crypto';
+import { validateAddress } from '@/lib/address';
+import { createKeystore, encryptAccount, Keystore, KeystoreAccount, parseKeystore, unlockKeystore } from '@/lib/keystore';
+
+const KEYSTORE_STORAGE_KEY = 'octraKeystore';
+const ACTIVE_ACCOUNT_STORAGE_KEY = 'octraActiveAccount';
+const AUTO_LOCK_STORAGE_KEY = 'octraAutoLock';
+// How often the inactivity and hidden-tab timers are checked
+const AUTO_LOCK_CHECK_INTERVAL = 5000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+// Older versions stored the private key here in plaintext
+const LEGACY_STORAGE_KEY = 'octraWallet';
 
 // Define the shape of our wallet object
-interface Wallet {
-  privateKey: string;
-  publicKey: string;
+// Watch-only wallets have an address but no keys, so they cannot sign
+export interface Wallet {
+  privateKey: string | null;
+  publicKey: string | null;
   address: string;
+  watchOnly: boolean;
 }
 
+// The public details of an account, available even while the keystore is locked
+export interface Account {
+  id: string;
+  name: string;
+  address: string;
+  publicKey: string | null;
+  watchOnly: boolean;
+}
+
+// A key (or, for watch-only accounts, an address) to add to the keystore, with an optional display name
+export type NewAccount =
+  | { privateKey: string; name?: string }
+  | { watchAddress: string; name?: string };
+
+// When to lock the wallet automatically; null disables that trigger
+export interface AutoLockSettings {
+  idleMinutes: number | null;
+  hiddenGraceSeconds: number | null;
+}
+
+const DEFAULT_AUTO_LOCK: AutoLockSettings = { idleMinutes: 15, hiddenGraceSeconds: 300 };
+
 // Define the shape of the context value
 interface WalletContextType {
+  // The active account, with its private key when unlocked
   wallet: Wallet | null;
+  accounts: Account[];
+  activeAccount: Account | null;
   isLoading: boolean;
-  login: (privateKey: string) => void;
+  // True when an encrypted keystore (or a plaintext wallet to migrate) exists but is not unlocked
+  isLocked: boolean;
+  needsMigration: boolean;
+  login: (newAccounts: NewAccount[], passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  addAccounts: (newAccounts: NewAccount[]) => Promise<void>;
+  removeAccount: (id: string) => void;
+  renameAccount: (id: string, name: string) => void;
+  switchAccount: (id: string) => void;
+  // Clears the decrypted keys from memory but keeps the saved accounts
+  lock: () => void;
+  autoLock: AutoLockSettings;
+  setAutoLock: (settings: AutoLockSettings) => void;
   logout: () => void;
 }
 
 // Create the context with a default value
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
 
+const buildWallet = (input: string) => {
+  // Throws an error naming the detected format if invalid, and stores every key as a Base64 seed
+  const { privateKey } = normalizePrivateKey(input);
+
+  return {
+    privateKey: privateKey,
+    publicKey: derivePublicKey(privateKey),
+    address: deriveAddress(privateKey),
+  };
+};
+
+const saveKeystore = (keystore: Keystore) => {
+  localStorage.setItem(KEYSTORE_STORAGE_KEY, JSON.stringify(keystore));
+};
+
 // Create the provider component
 export function WalletProvider({ children }: { children: ReactNode }) {
-  const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [keystore, setKeystore] = useState<Keystore | null>(null);
+  // Decrypted private keys by account id; null while locked
+  const [privateKeys, setPrivateKeys] = useState<Record<string, string> | null>(null);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
+  const [legacyPrivateKey, setLegacyPrivateKey] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [autoLock, setAutoLockState] = useState<AutoLockSettings>(DEFAULT_AUTO_LOCK);
+  // The key derived from the passphrase, kept only while unlocked so accounts can be added
+  const keystoreKeyRef = useRef<CryptoKey | null>(null);
 
   useEffect(() => {
-    // On initial load, check if a wallet is saved in localStorage
+    // On initial load, check if a keystore is saved in localStorage
+    try {
+      const savedKeystore = localStorage.getItem(KEYSTORE_STORAGE_KEY);
+      if (savedKeystore) {
+        setKeystore(parseKeystore(JSON.parse(savedKeystore)));
+        setActiveAccountId(localStorage.getItem(ACTIVE_ACCOUNT_STORAGE_KEY));
+      }
+    } catch (error) {
+      console.error("Failed to load keystore from storage:", error);
+      localStorage.removeItem(KEYSTORE_STORAGE_KEY); // Clear corrupted data
+    }
+
+    try {
+      const savedAutoLock = localStorage.getItem(AUTO_LOCK_STORAGE_KEY);
+      if (savedAutoLock) {
+        setAutoLockState({ ...DEFAULT_AUTO_LOCK, ...JSON.parse(savedAutoLock) });
+      }
+    } catch (error) {
+      console.error("Failed to load auto-lock settings from storage:", error);
+      localStorage.removeItem(AUTO_LOCK_STORAGE_KEY);
+    }
+
+    // A plaintext wallet from an older version is kept until the user picks a passphrase for it
     try {
-      const savedWallet = localStorage.getItem('octraWallet');
+      const savedWallet = localStorage.getItem(LEGACY_STORAGE_KEY);
       if (savedWallet) {
-        setWallet(JSON.parse(savedWallet));
+        setLegacyPrivateKey(JSON.parse(savedWallet).privateKey);
       }
     } catch (error) {
       console.error("Failed to load wallet from storage:", error);
-      localStorage.removeItem('octraWallet'); // Clear corrupted data
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  const login = (privateKey: string) => {
-    // This function will be called by the WalletSetup component
-    validatePrivateKey(privateKey); // This will throw an error if invalid
+  const lock = useCallback(() => {
+    keystoreKeyRef.current = null;
+    setPrivateKeys(null);
+  }, []);
+
+  const isUnlocked = !!privateKeys;
+
+  useEffect(() => {
+    // Lock after a period without user input, or once the tab has been hidden for the grace period
+    if (!isUnlocked) return;
+
+    let lastActivity = Date.now();
+    let hiddenAt: number | null = document.hidden ? Date.now() : null;
+
+    const isIdle = () => autoLock.idleMinutes !== null && Date.now() - lastActivity >= autoLock.idleMinutes * 60_000;
+    const hiddenTooLong = () => hiddenAt !== null && autoLock.hiddenGraceSeconds !== null
+      && Date.now() - hiddenAt >= autoLock.hiddenGraceSeconds * 1000;
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        hiddenAt = Date.now();
+        return;
+      }
+      // Timers are throttled in background tabs, so check again as soon as the tab is visible
+      if (hiddenTooLong() || isIdle()) {
+        lock();
+      }
+      hiddenAt = null;
+      lastActivity = Date.now();
+    };
+    const intervalId = setInterval(() => {
+      if (isIdle() || hiddenTooLong()) {
+        lock();
+      }
+    }, AUTO_LOCK_CHECK_INTERVAL);
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(intervalId);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isUnlocked, autoLock, lock]);
+
+  const setAutoLock = (settings: AutoLockSettings) => {
+    localStorage.setItem(AUTO_LOCK_STORAGE_KEY, JSON.stringify(settings));
+    setAutoLockState(settings);
+  };
+
+  const activateAccount = (id: string | null) => {
+    if (id) {
+      localStorage.setItem(ACTIVE_ACCOUNT_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_ACCOUNT_STORAGE_KEY);
+    }
+    setActiveAccountId(id);
+  };
+
+  // Encrypts new keys into a copy of the keystore and returns it with the decrypted keys of the added accounts
+  const encryptNewAccounts = async (key: CryptoKey, existing: Keystore, newAccounts: NewAccount[]) => {
+    if (newAccounts.length === 0) {
+      throw new Error('No account to add.');
+    }
+    let updated = existing;
+    const addedKeys: Record<string, string> = {};
+    const addedIds: string[] = [];
+    for (const newAccount of newAccounts) {
+      const address = 'watchAddress' in newAccount ? newAccount.watchAddress.trim() : buildWallet(newAccount.privateKey).address;
+      if ('watchAddress' in newAccount) {
+        validateAddress(address);
+      }
+      if (updated.accounts.some(account => account.address === address)) {
+        throw new Error(`Account ${address} has already been added.`);
+      }
+      const name = newAccount.name?.trim() || `Account ${updated.accounts.length + 1}`;
+      let account: KeystoreAccount;
+      if ('watchAddress' in newAccount) {
+        account = { id: address, name, address, watchOnly: true };
+      } else {
+        const newWallet = buildWallet(newAccount.privateKey);
+        account = await encryptAccount(key, { id: address, name, address, publicKey: newWallet.publicKey }, newWallet.privateKey);
+        addedKeys[account.id] = newWallet.privateKey;
+      }
+      updated = { ...updated, accounts: [...updated.accounts, account] };
+      addedIds.push(account.id);
+    }
+    return { keystore: updated, addedKeys, firstId: addedIds[0] };
+  };
+
+  const login = async (newAccounts: NewAccount[], passphrase: string) => {
+    // Creates a new keystore protected by the passphrase, holding these keys
+    const { keystore: emptyKeystore, key } = await createKeystore(passphrase);
+    const { keystore: newKeystore, addedKeys, firstId } = await encryptNewAccounts(key, emptyKeystore, newAccounts);
+
+    saveKeystore(newKeystore);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    keystoreKeyRef.current = key;
+    setKeystore(newKeystore);
+    setPrivateKeys(addedKeys);
+    setLegacyPrivateKey(null);
+    activateAccount(firstId);
+  };
+
+  const unlock = async (passphrase: string) => {
+    // This function will be called by the UnlockScreen component
+    if (keystore) {
+      const { key, privateKeys: decrypted } = await unlockKeystore(keystore, passphrase);
+      keystoreKeyRef.current = key;
+      setPrivateKeys(decrypted);
+      if (!keystore.accounts.some(account => account.id === activeAccountId)) {
+        activateAccount(keystore.accounts[0]?.id ?? null);
+      }
+    } else if (legacyPrivateKey) {
+      await login([{ privateKey: legacyPrivateKey }], passphrase);
+    } else {
+      throw new Error('No saved wallet to unlock.');
+    }
+  };
+
+  const addAccounts = async (newAccounts: NewAccount[]) => {
+    if (!keystore || !privateKeys || !keystoreKeyRef.current) {
+      throw new Error('Unlock the wallet before adding an account.');
+    }
+    const { keystore: newKeystore, addedKeys, firstId } = await encryptNewAccounts(keystoreKeyRef.current, keystore, newAccounts);
+
+    saveKeystore(newKeystore);
+    setKeystore(newKeystore);
+    setPrivateKeys({ ...privateKeys, ...addedKeys });
+    activateAccount(firstId);
+  };
+
+  const removeAccount = (id: string) => {
+    if (!keystore) return;
+    const remaining = keystore.accounts.filter(account => account.id !== id);
+    if (remaining.length === 0) {
+      logout();
+      return;
+    }
+    const newKeystore: Keystore = { ...keystore, accounts: remaining };
+
+    saveKeystore(newKeystore);
+    setKeystore(newKeystore);
+    if (privateKeys) {
+      const { [id]: _removed, ...rest } = privateKeys;
+      setPrivateKeys(rest);
+    }
+    if (activeAccountId === id) {
+      activateAccount(remaining[0].id);
+    }
+  };
 
-    const newWallet: Wallet = {
-      privateKey: privateKey,
-      publicKey: derivePublicKey(privateKey),
-      address: deriveAddress(privateKey),
+  const renameAccount = (id: string, name: string) => {
+    if (!keystore || !name.trim()) return;
+    const newKeystore: Keystore = {
+      ...keystore,
+      accounts: keystore.accounts.map(account => account.id === id ? { ...account, name: name.trim() } : account),
     };
 
-    localStorage.setItem('octraWallet', JSON.stringify(newWallet));
-    setWallet(newWallet);
+    saveKeystore(newKeystore);
+    setKeystore(newKeystore);
+  };
+
+  const switchAccount = (id: string) => {
+    if (keystore?.accounts.some(account => account.id === id)) {
+      activateAccount(id);
+    }
   };
 
   const logout = () => {
-    // This will be called by the Header component
-    localStorage.removeItem('octraWallet');
-    setWallet(null);
+    // Forgets every account saved in this browser
+    localStorage.removeItem(KEYSTORE_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    keystoreKeyRef.current = null;
+    activateAccount(null);
+    setKeystore(null);
+    setPrivateKeys(null);
+    setLegacyPrivateKey(null);
   };
 
+  const accounts: Account[] = (keystore?.accounts ?? []).map(({ id, name, address, publicKey, watchOnly }) => ({
+    id,
+    name,
+    address,
+    publicKey: publicKey ?? null,
+    watchOnly: !!watchOnly,
+  }));
+  const activeAccount = accounts.find(account => account.id === activeAccountId) ?? accounts[0] ?? null;
+  const activePrivateKey = activeAccount && privateKeys ? privateKeys[activeAccount.id] : undefined;
+  const wallet: Wallet | null = activeAccount && privateKeys && (activeAccount.watchOnly || activePrivateKey)
+    ? {
+      privateKey: activePrivateKey ?? null,
+      publicKey: activeAccount.publicKey,
+      address: activeAccount.address,
+      watchOnly: activeAccount.watchOnly,
+    }
+    : null;
+
+  const needsMigration = !keystore && !!legacyPrivateKey;
+  const isLocked = !wallet && ((!!keystore && !privateKeys) || needsMigration);
+
   return (
-    <WalletContext.Provider value={{ wallet, isLoading, login, logout }}>
+    <WalletContext.Provider value={{
+      wallet,
+      accounts,
+      activeAccount,
+      isLoading,
+      isLocked,
+      needsMigration,
+      login,
+      unlock,
+      addAccounts,
+      removeAccount,
+      renameAccount,
+      switchAccount,
+      lock,
+      autoLock,
+      setAutoLock,
+      logout,
+    }}>
   {children}
   </WalletContext.Provider>
 );
@@ -75,4 +370,4 @@ export function useWallet() {
     throw new Error('useWallet must be used within a WalletProvider');
   }
   return context;
-}
\ No newline at end of file
+}
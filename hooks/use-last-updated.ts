@@ -0,0 +1,39 @@
+import { useSyncExternalStore } from "react";
+import { Key, Middleware, unstable_serialize } from "swr";
+
+// When each SWR key last loaded from the network. SWR keeps equal data by reference,
+// so the data alone cannot tell a fresh answer from a stale one.
+const fetchedAt = new Map<string, number>();
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/**
+ * SWR middleware recording when a key's fetcher last succeeded; optimistic updates do not count.
+ */
+export const trackLastUpdated: Middleware = useSWRNext => (key, fetcher, config) => {
+  const tracked = fetcher && (async (...args: unknown[]) => {
+    const data = await fetcher(...args);
+    fetchedAt.set(unstable_serialize(key), Date.now());
+    listeners.forEach(listener => listener());
+    return data;
+  });
+  return useSWRNext(key, tracked, config);
+};
+
+/**
+ * Returns when data for an SWR key was last loaded from the network.
+ * @param {Key} key - The SWR key; the hook using it must have the trackLastUpdated middleware.
+ * @returns {number | null} The time in milliseconds, or null if it has not loaded yet.
+ */
+export function useLastUpdated(key: Key): number | null {
+  const serialized = key ? unstable_serialize(key) : null;
+  return useSyncExternalStore(
+    subscribe,
+    () => (serialized ? fetchedAt.get(serialized) ?? null : null),
+    () => null,
+  );
+}
@@ -0,0 +1,27 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useNetwork } from "@/context/NetworkContext";
+import { getRpcPool } from "@/lib/rpc-pool";
+
+// How often every node of the active network is probed
+const PROBE_INTERVAL_MS = 30000;
+
+// Health and latency of the active network's RPC nodes, probed in the background
+export function useRpcStatus() {
+  const { network } = useNetwork();
+  const pool = getRpcPool(network.rpcUrls);
+  const status = useSyncExternalStore(pool.subscribe, pool.getStatus, pool.getStatus);
+
+  useEffect(() => {
+    const probe = () => pool.probe();
+    probe();
+    const interval = setInterval(probe, PROBE_INTERVAL_MS);
+    // Re-rank the nodes as soon as the connection returns
+    window.addEventListener('online', probe);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', probe);
+    };
+  }, [pool]);
+
+  return status;
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { VanitySearchRequest, VanityWorkerMessage } from "@/lib/vanity";
+
+export interface VanityResult {
+  address: string;
+  // The private key (Base64) in keypair mode, or the entropy (hex) in mnemonic mode
+  secret: string;
+}
+
+// Runs a vanity address search across several Web Workers
+export function useVanitySearch() {
+  const workersRef = useRef<Worker[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [attempts, setAttempts] = useState(0);
+  const [rate, setRate] = useState(0);
+  const [error, setError] = useState("");
+  const startedAtRef = useRef(0);
+
+  const stop = useCallback(() => {
+    workersRef.current.forEach(worker => worker.terminate());
+    workersRef.current = [];
+    setIsSearching(false);
+  }, []);
+
+  // onFound receives the first match, straight from the worker that found it
+  const start = useCallback((request: VanitySearchRequest, workerCount: number, onFound: (result: VanityResult) => void) => {
+    stop();
+    setAttempts(0);
+    setRate(0);
+    setError("");
+    setIsSearching(true);
+    startedAtRef.current = Date.now();
+
+    let total = 0;
+    for (let i = 0; i < workerCount; i++) {
+      const worker = new Worker(new URL("../lib/vanity.worker.ts", import.meta.url));
+      worker.onmessage = (event: MessageEvent<VanityWorkerMessage>) => {
+        total += event.data.attempts;
+        setAttempts(total);
+        setRate(total / Math.max((Date.now() - startedAtRef.current) / 1000, 0.001));
+        if (event.data.type === "found") {
+          stop();
+          onFound({ address: event.data.address, secret: event.data.secret });
+        }
+      };
+      worker.onerror = (event) => {
+        setError(event.message || "The vanity search worker failed.");
+        stop();
+      };
+      worker.postMessage(request);
+      workersRef.current.push(worker);
+    }
+  }, [stop]);
+
+  // Workers keep running after unmount unless terminated
+  useEffect(() => stop, [stop]);
+
+  return { start, stop, isSearching, attempts, rate, error };
+}
@@ -1,32 +1,38 @@
 import useSWR, { useSWRConfig } from 'swr';
 import { useWallet } from '@/context/WalletContext';
-import { fetcher } from '@/lib/api';
+import { useNetwork } from '@/context/NetworkContext';
+import { getOctraClient, ParsedTransaction, rpcKeys, SignedTransaction, StagingResponse } from '@/lib/api';
+import { describeRpcError, RpcError, RpcNotFoundError, TransactionOutcomeUnknownError } from '@/lib/rpc-errors';
 import nacl from 'tweetnacl';
 import { encodeBase64 } from 'tweetnacl-util';
 import { useState } from "react";
 import { getKeyPair } from "@/lib/crypto";
 import { useMemo } from "react";
+import { trackLastUpdated, useLastUpdated } from "@/hooks/use-last-updated";
 
 // A single hook to fetch balance and nonce, mimicking cli.py's st()
 export function useWalletBalance() {
   const { wallet } = useWallet();
-  const rpcUrl = 'https://octra.network';
+  const { network } = useNetwork();
+  const rpcUrls = network.rpcUrls;
 
-  const balanceKey = wallet ? [`/balance/${wallet.address}`, rpcUrl] : null;
+  const balanceKey = wallet ? rpcKeys.balance(rpcUrls, wallet.address) : null;
   const { data: balanceData, error: balanceError, isLoading: balanceLoading } = useSWR(
     balanceKey,
-    fetcher,
+    ([, urls, address]) => getOctraClient(urls).getBalance(address),
     {
       refreshInterval: 30000,
+      use: [trackLastUpdated],
     }
   );
 
-  const stagingKey = wallet ? ['/staging', rpcUrl] : null;
+  const stagingKey = wallet ? rpcKeys.staging(rpcUrls) : null;
   const { data: stagingData, error: stagingError, isLoading: stagingLoading } = useSWR(
     stagingKey,
-    fetcher,
+    ([, urls]) => getOctraClient(urls).getStaging(),
     {
       refreshInterval: 30000,
+      use: [trackLastUpdated],
     }
   );
 
@@ -37,41 +43,32 @@ export function useWalletBalance() {
 
     const baseNonce = balanceData.nonce ?? 0;
 
-    if (stagingData?.staged_transactions) {
-      const ourStagedTxs = stagingData.staged_transactions.filter(
-        (tx: any) => tx.from === wallet.address
-      );
+    if (stagingData) {
+      const ourStagedTxs = stagingData.staged_transactions.filter(tx => tx.from === wallet.address);
       if (ourStagedTxs.length > 0) {
-        const maxStagedNonce = Math.max(...ourStagedTxs.map((tx: any) => Number(tx.nonce)));
+        const maxStagedNonce = Math.max(...ourStagedTxs.map(tx => tx.nonce));
         return Math.max(baseNonce, maxStagedNonce);
       }
     }
     return baseNonce;
   };
 
+  // The nonce depends on both calls, so the older of the two counts
+  const balanceUpdatedAt = useLastUpdated(balanceKey);
+  const stagingUpdatedAt = useLastUpdated(stagingKey);
+  const updatedAt = balanceUpdatedAt !== null && stagingUpdatedAt !== null
+    ? Math.min(balanceUpdatedAt, stagingUpdatedAt)
+    : null;
+
   return {
     balance: balanceData?.balance || 0,
     nonce: getCombinedNonce() || 0,
     isLoading: balanceLoading || stagingLoading,
     error: balanceError || stagingError,
+    updatedAt,
   };
 }
 
-interface TransactionReference {
-  hash: string;
-  epoch?: number;
-}
-
-interface ParsedTransaction {
-  from: string;
-  to: string;
-  amount: string;
-  amount_raw?: string;
-  nonce: number;
-  timestamp: number;
-  message?: string; // Tambahin field message sebagai optional
-}
-
 export interface ProcessedTransaction {
   time: Date;
   hash: string;
@@ -84,49 +81,48 @@ export interface ProcessedTransaction {
   message?: string;
 }
 
+// A confirmed transaction whose details could not be loaded
+export interface FailedTransaction {
+  hash: string;
+  epoch?: number;
+  error: string;
+}
+
 export function useTransactionHistory() {
   const { wallet } = useWallet();
-  const rpcUrl = 'https://octra.network';
+  const { network } = useNetwork();
+  const rpcUrls = network.rpcUrls;
 
-  const stagingKey = wallet ? ['/staging', rpcUrl] : null;
+  const stagingKey = wallet ? rpcKeys.staging(rpcUrls) : null;
   const { data: stagingData } = useSWR(
     stagingKey,
-    fetcher,
+    ([, urls]) => getOctraClient(urls).getStaging(),
     {
       refreshInterval: 30000,
+      use: [trackLastUpdated],
       revalidateOnFocus: false,
     }
   );
 
-  const addressKey = wallet ? [`/address/${wallet.address}?limit=20`, rpcUrl] : null;
+  const addressKey = wallet ? rpcKeys.address(rpcUrls, wallet.address, 20) : null;
   const { data: addressData, error: addressError, isLoading: addressLoading } = useSWR(
     addressKey,
-    fetcher,
+    ([, urls, address, limit]) => getOctraClient(urls).getAddress(address, limit),
     {
       refreshInterval: 60000,
+      use: [trackLastUpdated],
       revalidateOnFocus: false,
     }
   );
 
-  const transactionHashes = addressData?.recent_transactions?.map((tx: TransactionReference) => tx.hash) || [];
+  const transactionHashes = addressData?.recent_transactions.map(tx => tx.hash) || [];
 
   const transactionDetailsKey = transactionHashes.length > 0 && wallet
-    ? ['transaction-details', transactionHashes, rpcUrl]
+    ? rpcKeys.transactions(rpcUrls, wallet.address, transactionHashes)
     : null;
-  const { data: transactionDetails, error: detailsError, isLoading: detailsLoading } = useSWR(
+  const { data: transactionDetails, error: detailsError, isLoading: detailsLoading, mutate: reloadDetails } = useSWR(
     transactionDetailsKey,
-    async ([_, hashes, rpcUrl]) => {
-      const transactionPromises = hashes.map(async (hash: string) => {
-        try {
-          const response = await fetcher([`/tx/${hash}`, rpcUrl]);
-          return { hash, data: response };
-        } catch (_) {
-          return null;
-        }
-      });
-      const results = await Promise.all(transactionPromises);
-      return results.filter(result => result !== null);
-    },
+    ([, urls, , hashes]) => getOctraClient(urls).getTransactions(hashes),
     {
       refreshInterval: 60000,
       revalidateOnFocus: false,
@@ -145,15 +141,17 @@ export function useTransactionHistory() {
       return amountStr.includes('.') ? parseFloat(amountStr) : parseInt(amountStr) / 1_000_000;
     };
 
-    if (transactionDetails?.length && addressData?.recent_transactions?.length) {
-      transactionDetails.forEach((result: any) => {
-        if (!result?.data?.parsed_tx) return;
-
-        const { hash, data } = result;
+    if (transactionDetails?.length && addressData?.recent_transactions.length) {
+      transactionDetails.forEach(({ hash, data }) => {
         if (processedHashes.has(hash)) return;
+        // Failed lookups are reported separately; their hashes still hide the staged copy
+        if (!data) {
+          processedHashes.add(hash);
+          return;
+        }
 
         const parsedTx: ParsedTransaction = data.parsed_tx;
-        const txRef = addressData.recent_transactions.find((ref: TransactionReference) => ref.hash === hash);
+        const txRef = addressData.recent_transactions.find(ref => ref.hash === hash);
         const isIncoming = parsedTx.to === wallet.address;
 
         finalTransactions.push({
@@ -171,18 +169,17 @@ export function useTransactionHistory() {
       });
     }
 
-    if (stagingData?.staged_transactions) {
-      const ourStagedTxs = stagingData.staged_transactions.filter(
-        (tx: any) => tx.from === wallet.address && tx.hash && !processedHashes.has(tx.hash)
-      );
+    if (stagingData) {
+      stagingData.staged_transactions.forEach(stagedTx => {
+        if (stagedTx.from !== wallet.address || !stagedTx.hash || processedHashes.has(stagedTx.hash)) return;
 
-      ourStagedTxs.forEach((stagedTx: any) => {
-        const isIncoming = stagedTx.to === wallet.address;
+        const recipient = stagedTx.to ?? stagedTx.to_ ?? '';
+        const isIncoming = recipient === wallet.address;
         finalTransactions.push({
-          time: new Date(stagedTx.timestamp * 1000),
+          time: stagedTx.timestamp ? new Date(stagedTx.timestamp * 1000) : new Date(),
           hash: stagedTx.hash,
-          amount: parseAmount(stagedTx.amount_raw || stagedTx.amount),
-          to: isIncoming ? stagedTx.from : stagedTx.to,
+          amount: parseAmount(stagedTx.amount),
+          to: isIncoming ? stagedTx.from : recipient,
           type: isIncoming ? 'in' : 'out',
           ok: true,
           nonce: stagedTx.nonce,
@@ -198,21 +195,36 @@ export function useTransactionHistory() {
       .slice(0, 50);
   }, [wallet?.address, transactionDetails, addressData?.recent_transactions, stagingData]);
 
+  const failedTransactions = useMemo((): FailedTransaction[] => (
+    (transactionDetails ?? []).flatMap(({ hash, error }) => error
+      ? [{ hash, epoch: addressData?.recent_transactions.find(ref => ref.hash === hash)?.epoch, error: describeRpcError(error).message }]
+      : [])
+  ), [transactionDetails, addressData?.recent_transactions]);
+
   const isLoading = addressLoading || detailsLoading;
   const error = addressError || detailsError;
+  const retryFailed = () => reloadDetails();
+  const updatedAt = useLastUpdated(addressKey);
 
-  if (addressError && addressError.message.includes('404')) {
+  // The node answers 404 for addresses without transactions
+  if (addressError instanceof RpcNotFoundError) {
     return {
       history: processedTransactions,
+      failed: failedTransactions,
+      retryFailed,
       isLoading: false,
       error: null,
+      updatedAt,
     };
   }
 
   return {
     history: processedTransactions,
+    failed: failedTransactions,
+    retryFailed,
     isLoading,
     error,
+    updatedAt,
   };
 }
 
@@ -221,14 +233,18 @@ interface SendTransactionParams {
   amount: number;
   _nonce?: number;
   message?: string;
+  // Aborted when the wallet locks; transactions not yet signed are then skipped
+  signal?: AbortSignal;
 }
 
-interface SendTransactionResult {
+export interface SendTransactionResult {
   success: boolean;
   txHash?: string;
   error?: string;
+  // The node did not answer in time; the transaction may still have gone through
+  outcomeUnknown?: boolean;
   responseTime?: number;
-  poolInfo?: any;
+  poolInfo?: Record<string, unknown>;
   message?: string;
 }
 
@@ -237,13 +253,26 @@ export function useSendTransaction() {
   const { nonce, balance } = useWalletBalance();
   const [isLoading, setIsLoading] = useState(false);
   const { mutate } = useSWRConfig();
-  const rpcUrl = 'https://octra.network';
+  const { network } = useNetwork();
+  const rpcUrls = network.rpcUrls;
 
-  const sendTransaction = async ({ to, amount, _nonce, message }: SendTransactionParams): Promise<SendTransactionResult> => {
+  const sendTransaction = async ({ to, amount, _nonce, message, signal }: SendTransactionParams): Promise<SendTransactionResult> => {
     if (!wallet) {
       return { success: false, error: 'Wallet not connected' };
     }
 
+    if (wallet.watchOnly || !wallet.privateKey) {
+      return { success: false, error: 'This account is watch-only and cannot sign transactions' };
+    }
+
+    if (signal?.aborted) {
+      return { success: false, error: 'Cancelled: the wallet was locked before this transaction was signed' };
+    }
+
+    if (!navigator.onLine) {
+      return { success: false, error: 'You are offline. Reconnect before sending.' };
+    }
+
     const currentNonce = _nonce ?? nonce ?? 0;
 
     if (balance === undefined) {
@@ -275,7 +304,7 @@ export function useSendTransaction() {
       const signature = nacl.sign.detached(messageBytes, keyPair.secretKey);
       const signatureB64 = encodeBase64(signature);
       const publicKeyB64 = encodeBase64(keyPair.publicKey);
-      const signedTransaction = {
+      const signedTransaction: SignedTransaction = {
         ...transaction,
         signature: signatureB64,
         public_key: publicKeyB64,
@@ -283,86 +312,50 @@ export function useSendTransaction() {
       console.log('Signed Transaction:', signedTransaction);
 
       const startTime = Date.now();
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-      const response = await fetch('/api/proxy', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          method: 'POST',
-          endpoint: '/send-tx',
-          rpcUrl: rpcUrl,
-          payload: signedTransaction,
-        }),
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-      const responseTime = (Date.now() - startTime) / 1000;
-      if (!response.ok) {
-        const errorData = await response.json();
+      let sent;
+      try {
+        sent = await getOctraClient(rpcUrls).sendTransaction(signedTransaction);
+      } catch (error) {
+        if (!(error instanceof RpcError)) throw error;
         setIsLoading(false);
-        return { success: false, error: errorData.error || 'Transaction failed', responseTime };
-      }
-      const result = await response.json();
-      let txHash: string | undefined;
-      let success = false;
-      if (result.status === 'accepted') {
-        success = true;
-        txHash = result.tx_hash;
-      } else if (typeof result === 'string' && result.toLowerCase().startsWith('ok')) {
-        success = true;
-        txHash = result.split(' ').pop();
+        if (error instanceof TransactionOutcomeUnknownError) {
+          // If the node did take it, it shows up as staged
+          mutate(rpcKeys.staging(rpcUrls));
+          return { success: false, outcomeUnknown: true, error: error.message, responseTime: (Date.now() - startTime) / 1000 };
+        }
+        return { success: false, error: error.message || 'Transaction failed', responseTime: (Date.now() - startTime) / 1000 };
       }
+      const responseTime = (Date.now() - startTime) / 1000;
 
-      if (success && txHash) {
-        const stagingKey = ['/staging', rpcUrl];
-
-        mutate(
-          stagingKey,
-          (currentData: any) => {
-            const newStagedTx = {
+      mutate(
+        rpcKeys.staging(rpcUrls),
+        (currentData: StagingResponse | undefined): StagingResponse => ({
+          ...currentData,
+          staged_transactions: [
+            {
               from: wallet.address,
               to: to,
               amount: String(Math.floor(amount * 1_000_000)),
               nonce: currentNonce + 1,
-              hash: txHash,
+              hash: sent.txHash,
               timestamp: Date.now() / 1000,
               message: message || undefined,
-            };
-
-            const newStagingData = {
-              ...(currentData || {}),
-              staged_transactions: [
-                newStagedTx,
-                ...(currentData?.staged_transactions || [])
-              ],
-            };
-
-            return newStagingData;
-          },
-          { revalidate: false }
-        );
-
-        if (wallet?.address) {
-          mutate([`/balance/${wallet.address}`, rpcUrl]);
-        }
+            },
+            ...(currentData?.staged_transactions || []),
+          ],
+        }),
+        { revalidate: false }
+      );
+      mutate(rpcKeys.balance(rpcUrls, wallet.address));
 
-        setIsLoading(false);
-        return {
-          success: true,
-          txHash,
-          responseTime,
-          poolInfo: result.pool_info,
-          message: message || undefined,
-        };
-      } else {
-        setIsLoading(false);
-        return {
-          success: false,
-          error: JSON.stringify(result),
-          responseTime
-        };
-      }
+      setIsLoading(false);
+      return {
+        success: true,
+        txHash: sent.txHash,
+        responseTime,
+        poolInfo: sent.poolInfo,
+        message: message || undefined,
+      };
     } catch (error) {
       setIsLoading(false);
       return {
@@ -0,0 +1,100 @@
+import base58 from 'bs58';
+
+export const ADDRESS_PREFIX = 'oct';
+// Addresses hash the public key with SHA256
+const ADDRESS_PAYLOAD_LENGTH = 32;
+// Base58 characters after "oct" of almost every address; about 1 in 17 hashes is small enough to need one fewer
+const USUAL_ENCODED_LENGTH = 44;
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+export type AddressCheck =
+  | { status: 'valid' }
+  // Not an address at all: missing prefix, or characters outside Base58
+  | { status: 'malformed'; reason: string }
+  // Decodes, but not to a 32-byte hash: a character was added, or dropped from a short address
+  | { status: 'wrong-length'; length: number }
+  // Decodes to 32 bytes, but in fewer characters than usual. Genuine ones exist, but dropping a
+  // character from a usual address mostly lands here too, so the user has to confirm it.
+  | { status: 'unusual-length'; characters: number };
+
+/**
+ * Checks an Octra address: oct followed by the Base58 encoding of exactly 32 bytes, usually in 44 characters.
+ * @param {string} address - The address string.
+ * @returns {AddressCheck} Whether the address is valid, malformed, of the wrong length or of an unusual length.
+ */
+export function checkAddress(address: string): AddressCheck {
+  if (!address) {
+    return { status: 'malformed', reason: 'Address is empty.' };
+  }
+  if (!address.startsWith(ADDRESS_PREFIX)) {
+    return { status: 'malformed', reason: `Address must start with "${ADDRESS_PREFIX}".` };
+  }
+  const payload = address.slice(ADDRESS_PREFIX.length);
+  if (!BASE58_REGEX.test(payload)) {
+    const invalid = [...payload].find(char => !BASE58_REGEX.test(char));
+    return {
+      status: 'malformed',
+      reason: invalid ? `Address contains "${invalid}", which is not a Base58 character.` : 'Address has no characters after "oct".',
+    };
+  }
+  const length = base58.decode(payload).length;
+  if (length !== ADDRESS_PAYLOAD_LENGTH) {
+    return { status: 'wrong-length', length };
+  }
+  if (payload.length !== USUAL_ENCODED_LENGTH) {
+    return { status: 'unusual-length', characters: payload.length };
+  }
+  return { status: 'valid' };
+}
+
+/**
+ * Describes why an address is invalid. Addresses of unusual length are not errors; see getAddressWarning().
+ * @param {string} address - The address string.
+ * @returns {string | null} A readable error, or null if the address is valid.
+ */
+export function getAddressError(address: string): string | null {
+  const check = checkAddress(address);
+  switch (check.status) {
+    case 'valid':
+    case 'unusual-length':
+      return null;
+    case 'malformed':
+      return address ? `Invalid address ${address}: ${check.reason}` : `Invalid address: ${check.reason}`;
+    case 'wrong-length':
+      return `Invalid address ${address}: it decodes to ${check.length} bytes instead of ${ADDRESS_PAYLOAD_LENGTH}. Check for an extra or missing character.`;
+  }
+}
+
+/**
+ * Describes why a valid address should be double-checked before sending to it.
+ * @param {string} address - The address string.
+ * @returns {string | null} A readable warning, or null if the address looks as usual.
+ */
+export function getAddressWarning(address: string): string | null {
+  const check = checkAddress(address);
+  if (check.status !== 'unusual-length') return null;
+  return `Address ${address} has ${check.characters} characters after "${ADDRESS_PREFIX}" instead of the usual ${USUAL_ENCODED_LENGTH}. Few addresses are this short; make sure no character is missing.`;
+}
+
+/**
+ * Checks whether a string is a valid Octra address.
+ * @param {string} address - The address string.
+ * @returns {boolean} True if valid.
+ */
+export function isValidAddress(address: string): boolean {
+  const { status } = checkAddress(address);
+  return status === 'valid' || status === 'unusual-length';
+}
+
+/**
+ * Validates an Octra address.
+ * @param {string} address - The address string.
+ * @returns {boolean} Returns true if valid, otherwise throws an error describing the problem.
+ */
+export function validateAddress(address: string): boolean {
+  const error = getAddressError(address);
+  if (error) {
+    throw new Error(error);
+  }
+  return true;
+}
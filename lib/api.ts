@@ -1,32 +1,250 @@
+import { getRpcPool, RpcPool } from '@/lib/rpc-pool';
+import { RpcError, RpcRequestError, RpcResponseError, TransactionRejectedError } from '@/lib/rpc-errors';
+import { array, integer, literal, number, numericString, object, optional, parse, record, Schema, SchemaError, string } from '@/lib/rpc-schema';
+
+export interface BalanceResponse {
+  // In OCT
+  balance: number;
+  nonce: number;
+}
+
+export interface StagedTransaction {
+  from: string;
+  to?: string;
+  // Transactions are submitted with to_, and some nodes echo it back unchanged
+  to_?: string;
+  amount?: string;
+  nonce: number;
+  hash?: string;
+  timestamp?: number;
+  message?: string;
+}
+
+export interface StagingResponse {
+  staged_transactions: StagedTransaction[];
+}
+
+export interface TransactionReference {
+  hash: string;
+  epoch?: number;
+}
+
+export interface AddressResponse {
+  recent_transactions: TransactionReference[];
+}
+
+export interface ParsedTransaction {
+  from: string;
+  to: string;
+  // In OCT when it contains a decimal point, in micro-OCT otherwise
+  amount: string;
+  amount_raw?: string;
+  nonce: number;
+  timestamp: number;
+  message?: string;
+}
+
+export interface TransactionResponse {
+  parsed_tx: ParsedTransaction;
+}
+
+// One transaction of a batch lookup: its details, or why they could not be loaded
+export interface TransactionLookup {
+  hash: string;
+  data?: TransactionResponse;
+  error?: RpcError;
+}
+
+// A transaction as signed by the wallet; the signature covers every field but message, signature and public_key
+export interface SignedTransaction {
+  from: string;
+  to_: string;
+  // In micro-OCT
+  amount: string;
+  nonce: number;
+  ou: string;
+  timestamp: number;
+  message?: string;
+  signature: string;
+  public_key: string;
+}
+
+export interface SendTransactionResponse {
+  txHash: string;
+  poolInfo?: Record<string, unknown>;
+}
+
+const balanceSchema: Schema<BalanceResponse> = object({
+  balance: number,
+  nonce: integer,
+});
+
+const stagingSchema = object<{ staged_transactions?: StagedTransaction[] }>({
+  staged_transactions: optional(array(object<StagedTransaction>({
+    from: string,
+    to: optional(string),
+    to_: optional(string),
+    amount: optional(numericString),
+    nonce: integer,
+    hash: optional(string),
+    timestamp: optional(number),
+    message: optional(string),
+  }))),
+});
+
+const addressSchema = object<{ recent_transactions?: TransactionReference[] }>({
+  recent_transactions: optional(array(object<TransactionReference>({
+    hash: string,
+    epoch: optional(integer),
+  }))),
+});
+
+const transactionSchema: Schema<TransactionResponse> = object({
+  parsed_tx: object<ParsedTransaction>({
+    from: string,
+    to: string,
+    amount: numericString,
+    amount_raw: optional(numericString),
+    nonce: integer,
+    timestamp: number,
+    message: optional(string),
+  }),
+});
+
+const acceptedSchema = object<{ status: 'accepted'; tx_hash: string; pool_info?: Record<string, unknown> }>({
+  status: literal('accepted'),
+  tx_hash: string,
+  pool_info: optional(record),
+});
+
+/**
+ * A typed client for the Octra RPC API. Every response is validated before it is returned,
+ * so a change in the node's format surfaces as an RpcResponseError rather than NaN in the UI.
+ */
+export class OctraClient {
+  private pool: RpcPool;
+
+  constructor(pool: RpcPool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Fetches the confirmed balance and nonce of an address.
+   * @param {string} address - The address.
+   * @returns {Promise<BalanceResponse>} The balance in OCT and the nonce. Throws an RpcNotFoundError for unused addresses.
+   */
+  async getBalance(address: string): Promise<BalanceResponse> {
+    return this.read(balanceSchema, `/balance/${address}`);
+  }
+
+  /**
+   * Fetches the transactions waiting for the next epoch.
+   * @returns {Promise<StagingResponse>} The staged transactions of every address.
+   */
+  async getStaging(): Promise<StagingResponse> {
+    const data = await this.read(stagingSchema, '/staging');
+    return { staged_transactions: data.staged_transactions ?? [] };
+  }
+
+  /**
+   * Fetches the most recent transactions of an address.
+   * @param {string} address - The address.
+   * @param {number} limit - The maximum number of transactions.
+   * @returns {Promise<AddressResponse>} References to the transactions, newest first.
+   */
+  async getAddress(address: string, limit: number): Promise<AddressResponse> {
+    const data = await this.read(addressSchema, `/address/${address}?limit=${limit}`);
+    return { recent_transactions: data.recent_transactions ?? [] };
+  }
+
+  /**
+   * Fetches a confirmed transaction.
+   * @param {string} hash - The transaction hash.
+   * @returns {Promise<TransactionResponse>} The parsed transaction.
+   */
+  async getTransaction(hash: string): Promise<TransactionResponse> {
+    return this.read(transactionSchema, `/tx/${hash}`);
+  }
+
+  /**
+   * Fetches several confirmed transactions in one round-trip.
+   * @param {string[]} hashes - The transaction hashes.
+   * @returns {Promise<TransactionLookup[]>} One lookup per hash, in order; failed lookups carry their error.
+   */
+  async getTransactions(hashes: string[]): Promise<TransactionLookup[]> {
+    const endpoints = hashes.map(hash => `/tx/${hash}`);
+    const results = await this.pool.readBatch(endpoints);
+    return results.map((result, index) => {
+      const hash = hashes[index];
+      if (!result.ok) return { hash, error: result.error };
+      try {
+        return { hash, data: validate(transactionSchema, result.data, endpoints[index]) };
+      } catch (e) {
+        if (e instanceof RpcError) return { hash, error: e };
+        throw e;
+      }
+    });
+  }
+
+  /**
+   * Submits a signed transaction to a single node.
+   * @param {SignedTransaction} transaction - The signed transaction.
+   * @returns {Promise<SendTransactionResponse>} The transaction hash. Throws a TransactionRejectedError if the node did not accept it.
+   */
+  async sendTransaction(transaction: SignedTransaction): Promise<SendTransactionResponse> {
+    // A single node, never failed over: retrying elsewhere could submit the transaction twice
+    let result: unknown;
+    try {
+      result = await this.pool.broadcast('/send-tx', transaction);
+    } catch (e) {
+      // The node answered 4xx: it read the transaction and refused it, e.g. for a stale nonce
+      if (e instanceof RpcRequestError && e.code === 'UPSTREAM_ERROR' && e.status >= 400 && e.status < 500 && e.status !== 429) {
+        throw new TransactionRejectedError({ error: e.message });
+      }
+      throw e;
+    }
+    // Some nodes answer in plain text: "ok <hash>"
+    if (typeof result === 'string' && result.toLowerCase().startsWith('ok')) {
+      return { txHash: result.split(' ').pop() as string };
+    }
+    try {
+      const accepted = parse(acceptedSchema, result);
+      return { txHash: accepted.tx_hash, poolInfo: accepted.pool_info };
+    } catch (e) {
+      if (e instanceof SchemaError) throw new TransactionRejectedError(result);
+      throw e;
+    }
+  }
+
+  private async read<T>(schema: Schema<T>, endpoint: string): Promise<T> {
+    return validate(schema, await this.pool.read(endpoint), endpoint);
+  }
+}
+
+// Validates a response, reporting a mismatch as an RpcResponseError for the endpoint
+function validate<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+  try {
+    return parse(schema, data);
+  } catch (e) {
+    if (e instanceof SchemaError) throw new RpcResponseError(endpoint, e.message);
+    throw e;
+  }
+}
+
 /**
- * A generic SWR fetcher function that uses the native fetch API
- * and our Next.js API proxy route.
- * @param key The key for the SWR request, expected to be an array.
+ * Returns a client for a network, backed by its shared RPC pool.
+ * @param {string[]} rpcUrls - The network's RPC URLs, in preference order.
+ * @returns {OctraClient} The client.
  */
-export const fetcher = async (key: [string, string, object?]) => {
-  const [endpoint, rpcUrl, payload] = key;
-
-  const response = await fetch('/api/proxy', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      // For GET requests, payload will be undefined.
-      // Our proxy will interpret this as a GET request to the RPC.
-      method: payload ? 'POST' : 'GET',
-      endpoint,
-      rpcUrl,
-      payload,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json();
-    // Create an error object with a message from the API response
-    const error = new Error(errorData.error || 'An error occurred while fetching the data.');
-    throw error;
-  }
-
-  return response.json();
-};
\ No newline at end of file
+export function getOctraClient(rpcUrls: string[]): OctraClient {
+  return new OctraClient(getRpcPool(rpcUrls));
+}
+
+// SWR keys: the endpoint, the network's RPC URLs, then the call's arguments
+export const rpcKeys = {
+  balance: (rpcUrls: string[], address: string) => ['/balance', rpcUrls, address] as const,
+  staging: (rpcUrls: string[]) => ['/staging', rpcUrls] as const,
+  address: (rpcUrls: string[], address: string, limit: number) => ['/address', rpcUrls, address, limit] as const,
+  // Keyed by address as well so cached details never carry over when switching accounts
+  transactions: (rpcUrls: string[], address: string, hashes: string[]) => ['/tx', rpcUrls, address, hashes] as const,
+};
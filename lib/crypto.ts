@@ -2,24 +2,92 @@ import { sign, SignKeyPair } from 'tweetnacl';
 import { decodeBase64, encodeBase64 } from 'tweetnacl-util';
 import base58 from 'bs58';
 import { createHash, randomBytes, createHmac } from 'crypto';
-import { entropyToMnemonic, mnemonicToSeedSync, validateMnemonic } from "bip39";
+import { entropyToMnemonic, mnemonicToSeedSync } from "bip39";
+import { validateMnemonicPhrase } from '@/lib/mnemonic';
+
+export type PrivateKeyFormat = 'base64' | 'hex' | 'base58';
+
+export const PRIVATE_KEY_FORMAT_LABELS: Record<PrivateKeyFormat, string> = {
+  base64: 'Base64',
+  hex: 'hex',
+  base58: 'Base58',
+};
+
+export interface NormalizedPrivateKey {
+  format: PrivateKeyFormat;
+  // True if the input was a 64-byte secret key (seed followed by public key) rather than a 32-byte seed
+  isSecretKey: boolean;
+  // The 32-byte seed, Base64 encoded
+  privateKey: string;
+}
 
 /**
- * Validates a private key.
- * A valid private key, after Base64 decoding, must be 32 or 64 bytes long.
- * @param {string} privateKeyB64 - The Base64 encoded private key string.
- * @returns {boolean} Returns true if valid, otherwise throws an error.
+ * Detects the encoding of a private key and normalizes it to a Base64 32-byte seed.
+ * Accepts Base64, hex (optionally 0x-prefixed) and Base58, as a 32-byte seed or a 64-byte secret key.
+ * The public key embedded in a 64-byte secret key must match its seed.
+ * @param {string} input - The private key as entered.
+ * @returns {NormalizedPrivateKey} The detected format and the normalized key. Throws an error naming the detected format otherwise.
  */
-export function validatePrivateKey(privateKeyB64: string): boolean {
-  try {
-    const decodedKey = decodeBase64(privateKeyB64);
-    if (decodedKey.length !== 32 && decodedKey.length !== 64) {
-      throw new Error(`Invalid key length. Decoded key must be 32 or 64 bytes long, but got ${decodedKey.length}.`);
+export function normalizePrivateKey(input: string): NormalizedPrivateKey {
+  const value = input.trim();
+  if (!value) {
+    throw new Error('Invalid private key: empty.');
+  }
+  const decoded = decodePrivateKey(value);
+  if (!decoded) {
+    throw new Error('Invalid private key: not valid Base64, hex or Base58.');
+  }
+
+  const { format, bytes } = decoded;
+  const label = PRIVATE_KEY_FORMAT_LABELS[format];
+  if (bytes.length !== 32 && bytes.length !== 64) {
+    throw new Error(`Invalid private key: detected ${label}, which decodes to ${bytes.length} bytes. Expected a 32-byte seed or a 64-byte secret key.`);
+  }
+  const seed = bytes.slice(0, 32);
+  if (bytes.length === 64) {
+    const publicKey = sign.keyPair.fromSeed(seed).publicKey;
+    if (!Buffer.from(publicKey).equals(Buffer.from(bytes.slice(32)))) {
+      throw new Error(`Invalid private key: detected a 64-byte ${label} secret key, but its embedded public key does not match its seed.`);
+    }
+  }
+  return { format, isSecretKey: bytes.length === 64, privateKey: encodeBase64(seed) };
+}
+
+// Tries each encoding in turn; the first one giving 32 or 64 bytes wins, else the first that decoded at all
+function decodePrivateKey(value: string): { format: PrivateKeyFormat; bytes: Uint8Array } | null {
+  const decoders: [PrivateKeyFormat, () => Uint8Array][] = [
+    ['hex', () => {
+      const hex = value.replace(/^0x/i, '');
+      if (!/^([0-9a-fA-F]{2})+$/.test(hex)) throw new Error('not hex');
+      return Buffer.from(hex, 'hex');
+    }],
+    ['base64', () => decodeBase64(value)],
+    ['base58', () => base58.decode(value)],
+  ];
+  let fallback: { format: PrivateKeyFormat; bytes: Uint8Array } | null = null;
+  for (const [format, decode] of decoders) {
+    let bytes: Uint8Array;
+    try {
+      bytes = decode();
+    } catch {
+      continue;
     }
-    return true;
-  } catch (e: any) {
-    throw new Error(`Invalid private key: ${e.message}`);
+    if (bytes.length === 32 || bytes.length === 64) {
+      return { format, bytes };
+    }
+    fallback ??= { format, bytes };
   }
+  return fallback;
+}
+
+/**
+ * Validates a private key in any supported format.
+ * @param {string} privateKey - The private key as Base64, hex or Base58, 32 or 64 bytes long.
+ * @returns {boolean} Returns true if valid, otherwise throws an error.
+ */
+export function validatePrivateKey(privateKey: string): boolean {
+  normalizePrivateKey(privateKey);
+  return true;
 }
 
 /**
@@ -30,7 +98,8 @@ export function validatePrivateKey(privateKeyB64: string): boolean {
  */
 export function getKeyPair(privateKeyB64: string): SignKeyPair {
   const decodedKey = decodeBase64(privateKeyB64);
-  return sign.keyPair.fromSeed(decodedKey);
+  // A 64-byte secret key is the seed followed by the public key
+  return sign.keyPair.fromSeed(decodedKey.slice(0, 32));
 }
 
 /**
@@ -58,18 +127,120 @@ export function deriveAddress(privateKeyB64: string): string {
 
 /**
  * Derives a private key from a mnemonic phrase.
- * @param {string} mnemonic - The mnemonic phrase (space-separated words).
+ * @param {string} mnemonic - The mnemonic phrase (space-separated words, any supported BIP39 language).
+ * @param {object} [options]
+ * @param {number} [options.index] - The hardened child index (path m/index'). The master key is returned when omitted.
+ * @param {string} [options.passphrase] - The optional BIP39 passphrase ("25th word").
  * @returns {string} The Base64 encoded private key.
  */
-export function derivePrivateKeyFromMnemonic(mnemonic: string): string {
-  if (!validateMnemonic(mnemonic)) {
-    throw new Error('Mnemonic phrase tidak valid');
+export function derivePrivateKeyFromMnemonic(
+  mnemonic: string,
+  { index, passphrase = '' }: { index?: number; passphrase?: string } = {}
+): string {
+  const masterKey: MasterKey = mnemonicToMasterKey(mnemonic, passphrase);
+  const privateKey: Buffer = index === undefined
+    ? masterKey.masterPrivateKey
+    : deriveHardenedChild(masterKey.masterPrivateKey, masterKey.masterChainCode, index).privateKey;
+  return encodeBase64(privateKey);
+}
+
+export interface DerivedAccount {
+  path: string;
+  index?: number;
+  privateKey: string;
+  address: string;
+}
+
+/**
+ * Derives the master account and the first hardened child accounts of a mnemonic.
+ * @param {string} mnemonic - The mnemonic phrase (space-separated words).
+ * @param {number} count - The number of child accounts to derive (paths m/0' to m/(count-1)').
+ * @param {string} [passphrase] - The optional BIP39 passphrase ("25th word").
+ * @returns {DerivedAccount[]} The master account followed by the child accounts.
+ */
+export function deriveAccountsFromMnemonic(mnemonic: string, count: number, passphrase: string = ''): DerivedAccount[] {
+  const { masterPrivateKey, masterChainCode }: MasterKey = mnemonicToMasterKey(mnemonic, passphrase);
+  const toAccount = (privateKey: Buffer, path: string, index?: number): DerivedAccount => {
+    const keyPair = sign.keyPair.fromSeed(privateKey);
+    return {
+      path,
+      index,
+      privateKey: encodeBase64(privateKey),
+      address: createOctraAddress(Buffer.from(keyPair.publicKey)),
+    };
+  };
+
+  const accounts: DerivedAccount[] = [toAccount(masterPrivateKey, 'm')];
+  for (let index = 0; index < count; index++) {
+    const child = deriveHardenedChild(masterPrivateKey, masterChainCode, index);
+    accounts.push(toAccount(child.privateKey, `m/${index}'`, index));
   }
-  const seed: Buffer = mnemonicToSeedSync(mnemonic);
-  const { masterPrivateKey }: MasterKey = deriveMasterKey(seed);
-  const keyPair = sign.keyPair.fromSeed(masterPrivateKey);
-  const privateKeyRaw: Buffer = Buffer.from(keyPair.secretKey.slice(0, 32));
-  return encodeBase64(privateKeyRaw);
+  return accounts;
+}
+
+function mnemonicToMasterKey(mnemonic: string, passphrase: string): MasterKey {
+  const seed: Buffer = mnemonicToSeedSync(validateMnemonicPhrase(mnemonic), passphrase);
+  return deriveMasterKey(seed);
+}
+
+// Prepended to every signed message so a message signature can never be replayed as a transaction signature
+const SIGNED_MESSAGE_PREFIX = 'Octra Signed Message:\n';
+
+export interface SignedMessage {
+  address: string;
+  public_key: string;
+  message: string;
+  signature: string;
+}
+
+/**
+ * Signs an arbitrary text message to prove ownership of an address.
+ * @param {string} privateKeyB64 - The Base64 encoded private key string.
+ * @param {string} message - The text to sign.
+ * @returns {SignedMessage} A portable signed message containing the address, public key, message and signature.
+ */
+export function signMessage(privateKeyB64: string, message: string): SignedMessage {
+  const keyPair = getKeyPair(privateKeyB64);
+  const messageBytes: Buffer = Buffer.from(SIGNED_MESSAGE_PREFIX + message, "utf8");
+  return {
+    address: createOctraAddress(Buffer.from(keyPair.publicKey)),
+    public_key: encodeBase64(keyPair.publicKey),
+    message,
+    signature: encodeBase64(sign.detached(messageBytes, keyPair.secretKey)),
+  };
+}
+
+/**
+ * Verifies a signed message: the signature must match the public key,
+ * and the public key must hash to the claimed address.
+ * @param {SignedMessage} signed - The signed message to check.
+ * @returns {boolean} Returns true if valid, otherwise throws an error describing the failed check.
+ */
+export function verifySignedMessage(signed: SignedMessage): boolean {
+  if (typeof signed?.address !== 'string' || typeof signed.public_key !== 'string'
+    || typeof signed.message !== 'string' || typeof signed.signature !== 'string') {
+    throw new Error('Signed message must contain "address", "public_key", "message" and "signature".');
+  }
+  let publicKey: Uint8Array;
+  let signature: Uint8Array;
+  try {
+    publicKey = decodeBase64(signed.public_key);
+    signature = decodeBase64(signed.signature);
+  } catch {
+    throw new Error('Public key and signature must be Base64 encoded.');
+  }
+  if (publicKey.length !== sign.publicKeyLength || signature.length !== sign.signatureLength) {
+    throw new Error('Public key or signature has the wrong length.');
+  }
+  const messageBytes: Buffer = Buffer.from(SIGNED_MESSAGE_PREFIX + signed.message, "utf8");
+  if (!sign.detached.verify(messageBytes, signature, publicKey)) {
+    throw new Error('Signature does not match the message and public key.');
+  }
+  const derivedAddress = createOctraAddress(Buffer.from(publicKey));
+  if (derivedAddress !== signed.address) {
+    throw new Error(`Public key belongs to ${derivedAddress}, not the claimed address ${signed.address}.`);
+  }
+  return true;
 }
 
 // Below was taken from the official wallet gen with minor modifications
@@ -87,6 +258,15 @@ function generateEntropy(strength: number = 128): Buffer {
   return randomBytes(strength / 8);
 }
 
+// Supported mnemonic lengths and the entropy strength (in bits) that produces them
+export const MNEMONIC_STRENGTHS: Record<number, number> = {
+  12: 128,
+  15: 160,
+  18: 192,
+  21: 224,
+  24: 256,
+};
+
 interface MasterKey {
   masterPrivateKey: Buffer;
   masterChainCode: Buffer;
@@ -102,6 +282,7 @@ export interface WalletData {
   public_key_b64: string;
   address: string;
   entropy_hex: string;
+  has_passphrase: boolean;
   test_message: string;
   test_signature: string;
   signature_valid: boolean;
@@ -118,8 +299,28 @@ function deriveMasterKey(seed: Buffer): MasterKey {
   return { masterPrivateKey, masterChainCode };
 }
 
+const HARDENED_OFFSET = 0x80000000;
+
+// Derive a hardened child key (SLIP-0010 style, the only kind Ed25519 supports)
+// using HMAC-SHA512(chainCode, 0x00 || parentKey || ser32(index + 2^31))
+function deriveHardenedChild(
+  parentPrivateKey: Buffer,
+  parentChainCode: Buffer,
+  index: number
+): { privateKey: Buffer; chainCode: Buffer } {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Invalid derivation index: ${index}`);
+  }
+  const indexBytes: Buffer = Buffer.alloc(4);
+  indexBytes.writeUInt32BE(index + HARDENED_OFFSET, 0);
+  const data: Buffer = Buffer.concat([Buffer.alloc(1, 0), parentPrivateKey, indexBytes]);
+  const mac: Buffer = createHmac("sha512", parentChainCode).update(data).digest();
+
+  return { privateKey: mac.slice(0, 32), chainCode: mac.slice(32, 64) };
+}
+
 // Create Octra address
-function createOctraAddress(publicKey: Buffer): string {
+export function createOctraAddress(publicKey: Buffer): string {
   const hash: Buffer = createHash("sha256").update(publicKey).digest();
   const base58Hash: string = base58.encode(hash);
   return "oct" + base58Hash;
@@ -129,29 +330,62 @@ function bufferToHex(buffer: Buffer | Uint8Array): string {
   return Buffer.from(buffer).toString("hex");
 }
 
+// Sign a fixed test message to confirm the generated key pair works
+function signTestMessage(keyPair: SignKeyPair) {
+  const testMessage: string = '{"from":"test","to":"test","amount":"1000000","nonce":1}';
+  const messageBytes: Buffer = Buffer.from(testMessage, "utf8");
+  const signature: Uint8Array = sign.detached(messageBytes, keyPair.secretKey);
+  const signatureB64: string = encodeBase64(signature);
+
+  let signatureValid: boolean = false;
+  signatureValid = sign.detached.verify(messageBytes, signature, keyPair.publicKey);
+
+  return {
+    test_message: testMessage,
+    test_signature: signatureB64,
+    signature_valid: signatureValid,
+  };
+}
+
 /**
  * Create a new wallet
+ * @param {number} [strength] - Entropy bits: 128, 160, 192, 224 or 256 (12 to 24 words).
+ * @param {string} [passphrase] - The optional BIP39 passphrase ("25th word").
  * @returns {Object} An object containing the private key and address.
  */
-export function createWallet(): WalletData {
-  const entropy: Buffer = generateEntropy(128);
+export function createWallet(strength: number = 128, passphrase: string = ''): WalletData {
+  return walletFromEntropy(generateEntropy(strength), passphrase);
+}
+
+/**
+ * Derive the master address of a known entropy, as walletFromEntropy() would, but without building the
+ * whole wallet. The mnemonic comes straight from the entropy, so it skips the checks a typed phrase needs;
+ * the vanity search calls this for every attempt.
+ * @param {Buffer} entropy - The mnemonic entropy (16 to 32 bytes).
+ * @returns {string} The Octra address.
+ */
+export function addressFromEntropy(entropy: Buffer): string {
+  const seed: Buffer = mnemonicToSeedSync(entropyToMnemonic(entropy.toString("hex")));
+  const { masterPrivateKey }: MasterKey = deriveMasterKey(seed);
+  return createOctraAddress(Buffer.from(sign.keyPair.fromSeed(masterPrivateKey).publicKey));
+}
+
+/**
+ * Build the wallet for a known entropy, e.g. one found by the vanity address search.
+ * @param {Buffer} entropy - The mnemonic entropy (16 to 32 bytes).
+ * @param {string} [passphrase] - The optional BIP39 passphrase ("25th word").
+ * @returns {Object} An object containing the private key and address.
+ */
+export function walletFromEntropy(entropy: Buffer, passphrase: string = ''): WalletData {
   const mnemonic: string = entropyToMnemonic(entropy.toString("hex"));
   const mnemonicWords: string[] = mnemonic.split(" ");
-  const seed: Buffer = mnemonicToSeedSync(mnemonic);
+  const seed: Buffer = mnemonicToSeedSync(mnemonic, passphrase);
   const { masterPrivateKey, masterChainCode }: MasterKey = deriveMasterKey(seed);
   const keyPair = sign.keyPair.fromSeed(masterPrivateKey);
   const privateKeyRaw: Buffer = Buffer.from(keyPair.secretKey.slice(0, 32));
   const publicKeyRaw: Buffer = Buffer.from(keyPair.publicKey);
   const address: string = createOctraAddress(publicKeyRaw);
 
-  const testMessage: string = '{"from":"test","to":"test","amount":"1000000","nonce":1}';
-  const messageBytes: Buffer = Buffer.from(testMessage, "utf8");
-  const signature: Uint8Array = sign.detached(messageBytes, keyPair.secretKey);
-  const signatureB64: string = encodeBase64(signature);
-
-  let signatureValid: boolean = false;
-  signatureValid = sign.detached.verify(messageBytes, signature, keyPair.publicKey);
-
   return {
     mnemonic: mnemonicWords,
     seed_hex: bufferToHex(seed),
@@ -162,8 +396,33 @@ export function createWallet(): WalletData {
     public_key_b64: encodeBase64(publicKeyRaw),
     address: address,
     entropy_hex: bufferToHex(entropy),
-    test_message: testMessage,
-    test_signature: signatureB64,
-    signature_valid: signatureValid,
+    has_passphrase: passphrase !== '',
+    ...signTestMessage(keyPair),
+  };
+}
+
+/**
+ * Build the wallet for a bare private key that has no mnemonic, e.g. a random vanity key pair.
+ * The mnemonic, seed, chain code and entropy are left empty.
+ * @param {string} privateKeyB64 - The Base64 encoded private key string.
+ * @returns {Object} An object containing the private key and address.
+ */
+export function walletFromPrivateKey(privateKeyB64: string): WalletData {
+  const keyPair = getKeyPair(privateKeyB64);
+  const privateKeyRaw: Buffer = Buffer.from(keyPair.secretKey.slice(0, 32));
+  const publicKeyRaw: Buffer = Buffer.from(keyPair.publicKey);
+
+  return {
+    mnemonic: [],
+    seed_hex: '',
+    master_chain_hex: '',
+    private_key_hex: bufferToHex(privateKeyRaw),
+    public_key_hex: bufferToHex(publicKeyRaw),
+    private_key_b64: encodeBase64(privateKeyRaw),
+    public_key_b64: encodeBase64(publicKeyRaw),
+    address: createOctraAddress(publicKeyRaw),
+    entropy_hex: '',
+    has_passphrase: false,
+    ...signTestMessage(keyPair),
   };
 }
@@ -0,0 +1,196 @@
+import { decodeBase64, encodeBase64, decodeUTF8, encodeUTF8 } from 'tweetnacl-util';
+
+// Number of PBKDF2 rounds used for new keystores (OWASP recommendation for PBKDF2-HMAC-SHA256).
+const PBKDF2_ITERATIONS = 600_000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface KeystoreKdf {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string;
+}
+
+export interface EncryptedSecret {
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * A single account inside a keystore, with the public details needed while it is locked.
+ * Watch-only accounts have an address but no public or private key.
+ */
+export interface KeystoreAccount {
+  id: string;
+  name: string;
+  address: string;
+  publicKey?: string;
+  key?: EncryptedSecret;
+  watchOnly?: boolean;
+}
+
+/**
+ * Passphrase-protected private keys.
+ * Every key is encrypted with AES-256-GCM using one key derived from the passphrase with PBKDF2,
+ * and each account's address is bound as additional data so a ciphertext cannot be moved to another entry.
+ */
+export interface Keystore {
+  version: 2;
+  kdf: KeystoreKdf;
+  // A known value encrypted with the keystore key, so the passphrase can be checked without any private key
+  check: EncryptedSecret;
+  accounts: KeystoreAccount[];
+}
+
+const CHECK_VALUE = 'octra-keystore';
+
+/**
+ * Checks that a passphrase is strong enough to protect a keystore.
+ * @param {string} passphrase - The passphrase chosen by the user.
+ * @returns {boolean} Returns true if valid, otherwise throws an error.
+ */
+export function validatePassphrase(passphrase: string): boolean {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+  }
+  return true;
+}
+
+/**
+ * Creates fresh key derivation parameters with a random salt.
+ * @returns {KeystoreKdf} The parameters to store alongside the ciphertext.
+ */
+export function createKdfParams(): KeystoreKdf {
+  return {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: encodeBase64(crypto.getRandomValues(new Uint8Array(16))),
+  };
+}
+
+/**
+ * Derives a non-extractable AES-GCM key from a passphrase.
+ * @param {string} passphrase - The user's passphrase.
+ * @param {KeystoreKdf} kdf - The stored key derivation parameters.
+ * @returns {Promise<CryptoKey>} The derived encryption key.
+ */
+export async function deriveKeystoreKey(passphrase: string, kdf: KeystoreKdf): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', decodeUTF8(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: kdf.name, hash: kdf.hash, iterations: kdf.iterations, salt: decodeBase64(kdf.salt) },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts a secret with AES-256-GCM.
+ * @param {string} secret - The plaintext to protect.
+ * @param {CryptoKey} key - A key from deriveKeystoreKey.
+ * @param {string} associatedData - Public data the ciphertext is bound to (e.g. the address).
+ * @returns {Promise<EncryptedSecret>} The Base64 encoded IV and ciphertext.
+ */
+export async function encryptSecret(secret: string, key: CryptoKey, associatedData: string): Promise<EncryptedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: decodeUTF8(associatedData) },
+    key,
+    decodeUTF8(secret)
+  );
+  return { iv: encodeBase64(iv), ciphertext: encodeBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypts a secret produced by encryptSecret.
+ * @param {EncryptedSecret} encrypted - The stored IV and ciphertext.
+ * @param {CryptoKey} key - A key from deriveKeystoreKey.
+ * @param {string} associatedData - The same public data used at encryption time.
+ * @returns {Promise<string>} The plaintext; throws if the passphrase is wrong or the data was tampered with.
+ */
+export async function decryptSecret(encrypted: EncryptedSecret, key: CryptoKey, associatedData: string): Promise<string> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: decodeBase64(encrypted.iv), additionalData: decodeUTF8(associatedData) },
+      key,
+      decodeBase64(encrypted.ciphertext)
+    );
+    return encodeUTF8(new Uint8Array(plaintext));
+  } catch {
+    throw new Error('Incorrect passphrase or corrupted keystore.');
+  }
+}
+
+/**
+ * Creates an empty keystore and the encryption key protecting it.
+ * @param {string} passphrase - The passphrase protecting the keystore.
+ * @returns {Promise<{ keystore: Keystore, key: CryptoKey }>} The keystore, safe to persist, and its key.
+ */
+export async function createKeystore(passphrase: string): Promise<{ keystore: Keystore; key: CryptoKey }> {
+  validatePassphrase(passphrase);
+  const kdf = createKdfParams();
+  const key = await deriveKeystoreKey(passphrase, kdf);
+  const check = await encryptSecret(CHECK_VALUE, key, CHECK_VALUE);
+  return { keystore: { version: 2, kdf, check, accounts: [] }, key };
+}
+
+/**
+ * Encrypts a private key into a keystore account entry.
+ * @param {CryptoKey} key - The keystore's encryption key.
+ * @param {Omit<KeystoreAccount, 'key'>} account - The public details of the account.
+ * @param {string} privateKeyB64 - The Base64 encoded private key string.
+ * @returns {Promise<KeystoreAccount>} The entry to add to the keystore.
+ */
+export async function encryptAccount(
+  key: CryptoKey,
+  account: Omit<KeystoreAccount, 'key'>,
+  privateKeyB64: string
+): Promise<KeystoreAccount> {
+  return { ...account, key: await encryptSecret(privateKeyB64, key, account.address) };
+}
+
+/**
+ * Decrypts every private key stored in a keystore.
+ * @param {Keystore} keystore - The persisted keystore.
+ * @param {string} passphrase - The passphrase protecting the keystore.
+ * @returns {Promise<{ key: CryptoKey, privateKeys: Record<string, string> }>} The encryption key and the
+ * Base64 encoded private keys by account id.
+ */
+export async function unlockKeystore(
+  keystore: Keystore,
+  passphrase: string
+): Promise<{ key: CryptoKey; privateKeys: Record<string, string> }> {
+  const key = await deriveKeystoreKey(passphrase, keystore.kdf);
+  // Verified even when every account is watch-only and there is nothing else to decrypt
+  await decryptSecret(keystore.check, key, CHECK_VALUE);
+  const privateKeys: Record<string, string> = {};
+  for (const account of keystore.accounts) {
+    if (account.key) {
+      privateKeys[account.id] = await decryptSecret(account.key, key, account.address);
+    }
+  }
+  return { key, privateKeys };
+}
+
+const isEncryptedSecret = (value: unknown): value is EncryptedSecret =>
+  typeof value === 'object' && value !== null
+  && 'iv' in value && typeof value.iv === 'string'
+  && 'ciphertext' in value && typeof value.ciphertext === 'string';
+
+/**
+ * Reads a keystore from its stored form.
+ * @param {unknown} value - The value read from storage.
+ * @returns {Keystore} The keystore; throws if the value is not a keystore.
+ */
+export function parseKeystore(value: unknown): Keystore {
+  const stored = value as Keystore;
+  if (stored?.version === 2 && stored.kdf?.name === 'PBKDF2' && typeof stored.kdf.salt === 'string'
+    && isEncryptedSecret(stored.check) && Array.isArray(stored.accounts)
+    && stored.accounts.every(account => typeof account?.address === 'string'
+      && (account.watchOnly === true || isEncryptedSecret(account.key)))) {
+    return stored;
+  }
+  throw new Error('Unrecognized keystore format');
+}
@@ -0,0 +1,155 @@
+import { validateMnemonic, wordlists } from 'bip39';
+
+export type MnemonicLanguage =
+  | 'english'
+  | 'japanese'
+  | 'korean'
+  | 'spanish'
+  | 'chinese_simplified'
+  | 'chinese_traditional'
+  | 'french'
+  | 'italian'
+  | 'czech'
+  | 'portuguese';
+
+export const MNEMONIC_LANGUAGES: { id: MnemonicLanguage; label: string }[] = [
+  { id: 'english', label: 'English' },
+  { id: 'japanese', label: '日本語' },
+  { id: 'korean', label: '한국어' },
+  { id: 'spanish', label: 'Español' },
+  { id: 'chinese_simplified', label: '中文(简体)' },
+  { id: 'chinese_traditional', label: '中文(繁體)' },
+  { id: 'french', label: 'Français' },
+  { id: 'italian', label: 'Italiano' },
+  { id: 'czech', label: 'Čeština' },
+  { id: 'portuguese', label: 'Português' },
+];
+
+export const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+export interface MnemonicCheck {
+  language: MnemonicLanguage;
+  // Zero-based positions of words missing from the wordlist
+  unknownWords: number[];
+  // The first problem found, or null if the mnemonic is valid
+  error: string | null;
+}
+
+/**
+ * Returns the BIP39 wordlist of a language.
+ * @param {MnemonicLanguage} language - The wordlist language.
+ * @returns {string[]} The 2048 words, NFKD normalized.
+ */
+export function getWordlist(language: MnemonicLanguage): string[] {
+  return wordlists[language];
+}
+
+/**
+ * Splits a mnemonic phrase into normalized words.
+ * Accepts any whitespace, including the ideographic space used by Japanese mnemonics.
+ * @param {string} mnemonic - The mnemonic phrase.
+ * @returns {string[]} The words, NFKD normalized and lowercased.
+ */
+export function splitMnemonic(mnemonic: string): string[] {
+  return normalizeWord(mnemonic).split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Normalizes a single typed word for wordlist lookup.
+ * @param {string} word - The word as typed.
+ * @returns {string} The word, NFKD normalized, trimmed and lowercased.
+ */
+export function normalizeWord(word: string): string {
+  return word.normalize('NFKD').trim().toLowerCase();
+}
+
+/**
+ * Picks the wordlist that contains the most of the given words.
+ * @param {string[]} words - Normalized words.
+ * @param {MnemonicLanguage} [fallback] - Returned when no word is in any wordlist.
+ * @returns {MnemonicLanguage} The best matching language.
+ */
+export function detectMnemonicLanguage(words: string[], fallback: MnemonicLanguage = 'english'): MnemonicLanguage {
+  let best = fallback;
+  let bestCount = 0;
+  for (const { id } of MNEMONIC_LANGUAGES) {
+    const wordlist = getWordlist(id);
+    const count = words.filter(word => wordlist.includes(word)).length;
+    if (count > bestCount) {
+      best = id;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Suggests wordlist words that start with a typed prefix.
+ * @param {string} prefix - The word typed so far.
+ * @param {MnemonicLanguage} language - The wordlist language.
+ * @param {number} [limit] - The maximum number of suggestions.
+ * @returns {string[]} The matching words, in wordlist order.
+ */
+export function suggestWords(prefix: string, language: MnemonicLanguage, limit: number = 5): string[] {
+  const normalized = normalizeWord(prefix);
+  if (!normalized) return [];
+  const suggestions: string[] = [];
+  for (const word of getWordlist(language)) {
+    if (word.startsWith(normalized)) {
+      suggestions.push(word);
+      if (suggestions.length === limit) break;
+    }
+  }
+  return suggestions;
+}
+
+/**
+ * Checks a mnemonic word by word, so errors can point at the exact word that is wrong.
+ * The checksum is only checked once every word is in the wordlist.
+ * @param {string[]} words - The words, in order; empty strings are unfilled positions.
+ * @param {MnemonicLanguage} [language] - The wordlist language; detected from the words when omitted.
+ * @returns {MnemonicCheck} The detected language, the unknown word positions and the first error.
+ */
+export function checkMnemonic(words: string[], language?: MnemonicLanguage): MnemonicCheck {
+  const normalized = words.map(normalizeWord);
+  const detected = language ?? detectMnemonicLanguage(normalized);
+  const wordlist = getWordlist(detected);
+  const languageLabel = MNEMONIC_LANGUAGES.find(l => l.id === detected)!.label;
+  const unknownWords = normalized
+    .map((word, index) => (word && !wordlist.includes(word) ? index : -1))
+    .filter(index => index !== -1);
+  const check = (error: string | null): MnemonicCheck => ({ language: detected, unknownWords, error });
+
+  if (!MNEMONIC_WORD_COUNTS.includes(normalized.length)) {
+    return check(`A mnemonic has 12, 15, 18, 21 or 24 words, but ${normalized.length} ${normalized.length === 1 ? 'was' : 'were'} given.`);
+  }
+  const empty = normalized.indexOf('');
+  if (empty !== -1) {
+    return check(`Word #${empty + 1} is empty.`);
+  }
+  if (unknownWords.length > 0) {
+    const [first] = unknownWords;
+    const hint = suggestWords(normalized[first].slice(0, 3), detected, 3);
+    return check(`Word #${first + 1} "${words[first].trim()}" is not in the ${languageLabel} BIP39 wordlist.`
+      + (hint.length > 0 ? ` Did you mean ${hint.map(w => `"${w}"`).join(', ')}?` : '')
+      + (unknownWords.length > 1 ? ` ${unknownWords.length - 1} more word${unknownWords.length > 2 ? 's are' : ' is'} also unknown.` : ''));
+  }
+  if (!validateMnemonic(normalized.join(' '), wordlist)) {
+    return check('Every word is valid, but the checksum does not match. A word is probably wrong or out of order.');
+  }
+  return check(null);
+}
+
+/**
+ * Validates a mnemonic phrase in any supported language.
+ * @param {string} mnemonic - The mnemonic phrase.
+ * @returns {string} The normalized phrase, words separated by single spaces. Throws an error naming the problem otherwise.
+ */
+export function validateMnemonicPhrase(mnemonic: string): string {
+  const words = splitMnemonic(mnemonic);
+  const { error } = checkMnemonic(words);
+  if (error) {
+    throw new Error(`Invalid mnemonic: ${error}`);
+  }
+  return words.join(' ');
+}
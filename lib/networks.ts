@@ -0,0 +1,96 @@
+// A named Octra network: where to send RPC calls, and where its explorer and faucet live
+export interface NetworkProfile {
+  id: string;
+  label: string;
+  // The RPC pool, in preference order; reads fail over between them
+  rpcUrls: string[];
+  explorerUrl: string;
+  // Empty when the network has no faucet
+  faucetUrl: string;
+  // Built-in profiles can be edited but not removed
+  builtIn?: boolean;
+}
+
+export const DEFAULT_NETWORK: NetworkProfile = {
+  id: 'octra',
+  label: 'Octra Network',
+  rpcUrls: ['https://octra.network'],
+  explorerUrl: 'https://octrascan.io',
+  faucetUrl: 'https://faucet.octra.network/',
+  builtIn: true,
+};
+
+// The in-memory node started by `npm run mock-node`; only offered in development
+export const MOCK_NETWORK: NetworkProfile = {
+  id: 'mock',
+  label: 'Local Mock Node',
+  rpcUrls: ['http://127.0.0.1:8765'],
+  explorerUrl: 'http://127.0.0.1:8765/explorer',
+  faucetUrl: '',
+  builtIn: true,
+};
+
+export const DEFAULT_NETWORKS: NetworkProfile[] = process.env.NODE_ENV === 'development'
+  ? [DEFAULT_NETWORK, MOCK_NETWORK]
+  : [DEFAULT_NETWORK];
+
+/**
+ * Checks that a value read from storage has the shape of a network profile.
+ * @param {unknown} value - The stored value.
+ * @returns {boolean} True if it is a network profile.
+ */
+export function isNetworkProfile(value: unknown): value is NetworkProfile {
+  return typeof value === 'object' && value !== null
+    && 'id' in value && typeof value.id === 'string'
+    && 'label' in value && typeof value.label === 'string'
+    && 'rpcUrls' in value && Array.isArray(value.rpcUrls) && value.rpcUrls.length > 0
+    && value.rpcUrls.every(url => typeof url === 'string')
+    && 'explorerUrl' in value && typeof value.explorerUrl === 'string'
+    && 'faucetUrl' in value && typeof value.faucetUrl === 'string'
+    && (!('builtIn' in value) || value.builtIn === undefined || typeof value.builtIn === 'boolean');
+}
+
+/**
+ * Validates and normalizes a network profile.
+ * URLs must be http(s); trailing slashes are removed from the RPC and explorer URLs, and duplicate RPC URLs are dropped.
+ * @param {NetworkProfile} profile - The profile as entered.
+ * @returns {NetworkProfile} The normalized profile. Throws an error naming the invalid field otherwise.
+ */
+export function normalizeNetworkProfile(profile: NetworkProfile): NetworkProfile {
+  const label = profile.label.trim();
+  if (!label) {
+    throw new Error('Network name cannot be empty.');
+  }
+  const rpcUrls = [...new Set(profile.rpcUrls
+    .filter(url => url.trim())
+    .map(url => normalizeUrl(url, 'RPC URL').replace(/\/+$/, '')))];
+  if (rpcUrls.length === 0) {
+    throw new Error('Add at least one RPC URL.');
+  }
+  return {
+    ...profile,
+    label: label.slice(0, 32),
+    rpcUrls,
+    explorerUrl: normalizeUrl(profile.explorerUrl, 'Explorer URL').replace(/\/+$/, ''),
+    faucetUrl: profile.faucetUrl.trim() ? normalizeUrl(profile.faucetUrl, 'Faucet URL') : '',
+  };
+}
+
+function normalizeUrl(value: string, field: string): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`${field} is not a valid URL: ${value || 'empty'}`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`${field} must start with http:// or https://.`);
+  }
+  return url.toString();
+}
+
+// Explorer page of a transaction
+export const explorerTxUrl = (network: NetworkProfile, hash: string) => `${network.explorerUrl}/tx/${hash}`;
+
+// Explorer page of an address
+export const explorerAddressUrl = (network: NetworkProfile, address: string) => `${network.explorerUrl}/addr/${address}`;
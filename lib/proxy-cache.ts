@@ -0,0 +1,86 @@
+// A node's answer as the proxy returns it: the HTTP status and the JSON body
+export interface UpstreamResult {
+  status: number;
+  body: unknown;
+}
+
+// HIT: served from the cache; MISS: fetched from the node; SHARED: joined an identical request already in flight
+export type CacheStatus = 'HIT' | 'MISS' | 'SHARED';
+
+// Balances and staged transactions change every epoch, so they are only cached long enough to absorb polling bursts
+const SHORT_TTL_MS = 5 * 1000;
+const ADDRESS_TTL_MS = 10 * 1000;
+// The node documents no field that marks a transaction final, so even one with an epoch is only
+// cached for a minute: a stale or reorganized answer corrects itself soon
+const CONFIRMED_TX_TTL_MS = 60 * 1000;
+const MAX_ENTRIES = 1000;
+
+/**
+ * Returns how long a successful response may be cached.
+ * @param {string} endpoint - The endpoint path, with its query string.
+ * @param {unknown} body - The node's response.
+ * @returns {number} The TTL in milliseconds; 0 means the response is not cached.
+ */
+export function cacheTtlMs(endpoint: string, body: unknown): number {
+  if (endpoint.startsWith('/balance/') || endpoint === '/staging') return SHORT_TTL_MS;
+  if (endpoint.startsWith('/address/')) return ADDRESS_TTL_MS;
+  if (endpoint.startsWith('/tx/')) {
+    const confirmed = typeof body === 'object' && body !== null && 'epoch' in body && body.epoch != null;
+    return confirmed ? CONFIRMED_TX_TTL_MS : SHORT_TTL_MS;
+  }
+  return 0;
+}
+
+/**
+ * An in-memory cache of GET responses that also coalesces identical requests in flight.
+ * Only successful responses are stored; failures are shared with concurrent callers, then forgotten.
+ */
+export class ResponseCache {
+  private entries = new Map<string, { result: UpstreamResult; storedAt: number; expiresAt: number }>();
+  private inFlight = new Map<string, Promise<UpstreamResult>>();
+
+  /**
+   * Returns the cached response for a request, or loads it once for all concurrent callers.
+   * @param {string} key - The request's full URL.
+   * @param {string} endpoint - The endpoint path, used to pick the TTL.
+   * @param {() => Promise<UpstreamResult>} load - Fetches the response from the node; must not throw.
+   * @returns {Promise<{ result: UpstreamResult; cache: CacheStatus; ageSeconds: number }>} The response and where it came from.
+   */
+  async get(key: string, endpoint: string, load: () => Promise<UpstreamResult>): Promise<{ result: UpstreamResult; cache: CacheStatus; ageSeconds: number }> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      return { result: entry.result, cache: 'HIT', ageSeconds: Math.floor((now - entry.storedAt) / 1000) };
+    }
+    this.entries.delete(key);
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return { result: await pending, cache: 'SHARED', ageSeconds: 0 };
+    }
+
+    const promise = load()
+      .then(result => {
+        const ttl = result.status === 200 ? cacheTtlMs(endpoint, result.body) : 0;
+        if (ttl > 0) this.store(key, result, ttl);
+        return result;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return { result: await promise, cache: 'MISS', ageSeconds: 0 };
+  }
+
+  private store(key: string, result: UpstreamResult, ttl: number) {
+    const now = Date.now();
+    if (this.entries.size >= MAX_ENTRIES) {
+      for (const [cachedKey, cached] of this.entries) {
+        if (cached.expiresAt <= now) this.entries.delete(cachedKey);
+      }
+      // Still full: drop the oldest entry (Maps iterate in insertion order)
+      if (this.entries.size >= MAX_ENTRIES) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+    }
+    this.entries.set(key, { result, storedAt: now, expiresAt: now + ttl });
+  }
+}
@@ -0,0 +1,132 @@
+import { DEFAULT_NETWORKS } from '@/lib/networks';
+
+// Large enough for a signed transaction with a long message
+export const MAX_BODY_BYTES = 16 * 1024;
+
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+export const RATE_LIMIT_MAX_REQUESTS = 120;
+// Clients counted at once; past this, the oldest windows are dropped
+const RATE_LIMIT_MAX_CLIENTS = 10000;
+
+// Calls per /api/proxy/batch request
+export const MAX_BATCH_SIZE = 50;
+
+const BASE58 = '[1-9A-HJ-NP-Za-km-z]';
+
+// The only RPC calls the client makes; anything else is refused
+const ALLOWED_ENDPOINTS: { method: 'GET' | 'POST'; pattern: RegExp }[] = [
+  { method: 'GET', pattern: new RegExp(`^/balance/oct${BASE58}+$`) },
+  { method: 'GET', pattern: /^\/staging$/ },
+  { method: 'GET', pattern: new RegExp(`^/address/oct${BASE58}+(\\?limit=\\d{1,3})?$`) },
+  { method: 'GET', pattern: /^\/tx\/[0-9a-fA-F]{64}$/ },
+  { method: 'POST', pattern: /^\/send-tx$/ },
+];
+
+/**
+ * Returns the origins the proxy may forward to: those of the built-in networks, plus any listed
+ * (comma-separated) in the OCTRA_RPC_ALLOWLIST environment variable.
+ * @returns {Set<string>} The allowed origins, e.g. https://octra.network.
+ */
+export function getAllowedOrigins(): Set<string> {
+  const configured = (process.env.OCTRA_RPC_ALLOWLIST ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  const origins = new Set<string>();
+  for (const url of [...DEFAULT_NETWORKS.flatMap(network => network.rpcUrls), ...configured]) {
+    try {
+      origins.add(new URL(url).origin);
+    } catch {
+      console.warn(`Ignoring invalid RPC allowlist entry: ${url}`);
+    }
+  }
+  return origins;
+}
+
+/**
+ * Returns how many reverse proxies in front of the app append to X-Forwarded-For, from the
+ * OCTRA_TRUSTED_PROXY_HOPS environment variable. Without them, the header is the client's own claim.
+ * @returns {number} The number of trusted proxies; 0 if none is configured.
+ */
+export function getTrustedProxyHops(): number {
+  const hops = Number(process.env.OCTRA_TRUSTED_PROXY_HOPS ?? 0);
+  if (!Number.isInteger(hops) || hops < 0) {
+    console.warn(`Ignoring invalid OCTRA_TRUSTED_PROXY_HOPS: ${process.env.OCTRA_TRUSTED_PROXY_HOPS}`);
+    return 0;
+  }
+  return hops;
+}
+
+/**
+ * Checks a method and endpoint against the allowlist of RPC calls.
+ * @param {string} method - The HTTP method.
+ * @param {string} endpoint - The endpoint path, with its query string.
+ * @returns {boolean} True if the call is allowed.
+ */
+export function isAllowedEndpoint(method: string, endpoint: string): boolean {
+  return ALLOWED_ENDPOINTS.some(allowed => allowed.method === method && allowed.pattern.test(endpoint));
+}
+
+// Fields never written to the logs: they identify the sender and are of no use for debugging
+const REDACTED_FIELDS = ['signature', 'public_key', 'message'];
+
+/**
+ * Returns a copy of a payload that is safe to log.
+ * @param {unknown} payload - The request payload.
+ * @returns {unknown} The payload with sensitive fields replaced by "[redacted]".
+ */
+export function redactPayload(payload: unknown): unknown {
+  if (typeof payload !== 'object' || payload === null) return payload;
+  return Object.fromEntries(Object.entries(payload).map(([key, value]) => (
+    [key, REDACTED_FIELDS.includes(key) ? '[redacted]' : value]
+  )));
+}
+
+/**
+ * A fixed-window request counter per client. It lives in the server's memory,
+ * so each instance of a multi-instance deployment counts separately.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { startedAt: number; count: number }>();
+  private prunedAt = 0;
+  private windowMs: number;
+  private maxRequests: number;
+
+  constructor(windowMs: number, maxRequests: number) {
+    this.windowMs = windowMs;
+    this.maxRequests = maxRequests;
+  }
+
+  /**
+   * Counts a request.
+   * @param {string} client - The client's identifier, e.g. its IP address.
+   * @param {number} [cost] - How many requests to count, e.g. the size of a batch.
+   * @returns {number} 0 if the request is allowed, otherwise the seconds until the client may retry.
+   */
+  hit(client: string, cost: number = 1): number {
+    const now = Date.now();
+    const window = this.windows.get(client);
+    if (!window || now - window.startedAt >= this.windowMs) {
+      this.prune(now);
+      // Re-inserted so the map stays ordered by window start, oldest first
+      this.windows.delete(client);
+      if (this.windows.size >= RATE_LIMIT_MAX_CLIENTS) {
+        this.prune(now, true);
+        if (this.windows.size >= RATE_LIMIT_MAX_CLIENTS) {
+          this.windows.delete(this.windows.keys().next().value as string);
+        }
+      }
+      this.windows.set(client, { startedAt: now, count: cost });
+      return cost <= this.maxRequests ? 0 : Math.ceil(this.windowMs / 1000);
+    }
+    window.count += cost;
+    if (window.count <= this.maxRequests) return 0;
+    return Math.ceil((window.startedAt + this.windowMs - now) / 1000);
+  }
+
+  // Drops expired windows, at most once per window unless forced, so the map does not grow with every client ever seen
+  private prune(now: number, force: boolean = false) {
+    if (!force && now - this.prunedAt < this.windowMs) return;
+    this.prunedAt = now;
+    for (const [client, window] of this.windows) {
+      if (now - window.startedAt >= this.windowMs) this.windows.delete(client);
+    }
+  }
+}
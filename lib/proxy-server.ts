@@ -0,0 +1,191 @@
+import { NextResponse } from 'next/server';
+import {
+  getAllowedOrigins,
+  getTrustedProxyHops,
+  isAllowedEndpoint,
+  MAX_BODY_BYTES,
+  RATE_LIMIT_MAX_REQUESTS,
+  RATE_LIMIT_WINDOW_MS,
+  RateLimiter,
+} from '@/lib/proxy-policy';
+import { CacheStatus, ResponseCache, UpstreamResult } from '@/lib/proxy-cache';
+import { nodeErrorMessage, parseNodeBody, ProxyErrorCode, UPSTREAM_TIMEOUT_MS } from '@/lib/rpc-protocol';
+
+// Shared by /api/proxy and /api/proxy/batch, so both count against the same limits and cache.
+// Each route bundle gets its own copy of this module, so the instances live on globalThis.
+const shared = globalThis as typeof globalThis & {
+  octraProxy?: { allowedOrigins: Set<string>; trustedProxyHops: number; rateLimiter: RateLimiter; responseCache: ResponseCache };
+};
+shared.octraProxy ??= {
+  allowedOrigins: getAllowedOrigins(),
+  trustedProxyHops: getTrustedProxyHops(),
+  rateLimiter: new RateLimiter(RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX_REQUESTS),
+  responseCache: new ResponseCache(),
+};
+const { allowedOrigins, trustedProxyHops, rateLimiter, responseCache } = shared.octraProxy;
+
+export const proxyError = (code: ProxyErrorCode, message: string, status: number): UpstreamResult =>
+  ({ status, body: { error: message, code } });
+
+export const respond = (result: UpstreamResult, headers?: HeadersInit) =>
+  NextResponse.json(result.body, { status: result.status, headers });
+
+// Vercel sets this header itself, replacing anything the client sent
+const PLATFORM_CLIENT_IP_HEADER = process.env.VERCEL ? 'x-real-ip' : null;
+
+// Each trusted proxy appends the address it received the request from, so the client is the entry
+// that many places from the end; anything before it is the client's own claim. Route handlers do not
+// see the connection's address, so without a trusted proxy or platform header the client is unknown.
+function clientIp(request: Request): string | null {
+  if (trustedProxyHops > 0) {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean) ?? [];
+    return forwarded[forwarded.length - trustedProxyHops] ?? null;
+  }
+  return PLATFORM_CLIENT_IP_HEADER ? request.headers.get(PLATFORM_CLIENT_IP_HEADER) : null;
+}
+
+/**
+ * Counts requests against the client's rate limit. Requests from clients that cannot be identified
+ * are not limited, rather than sharing one limit with everyone else.
+ * @param {Request} request - The client's request.
+ * @param {number} [cost] - How many requests to count.
+ * @returns {NextResponse | null} The 429 response to send, or null if the client is within its limit.
+ */
+export function rateLimit(request: Request, cost: number = 1): NextResponse | null {
+  const client = clientIp(request);
+  if (!client) return null;
+  const retryAfter = rateLimiter.hit(client, cost);
+  if (retryAfter === 0) return null;
+  return respond(
+    proxyError('RATE_LIMITED', `Too many requests. Try again in ${retryAfter} seconds.`, 429),
+    { 'Retry-After': String(retryAfter) },
+  );
+}
+
+/**
+ * Reads and parses a JSON request body, refusing bodies over MAX_BODY_BYTES.
+ * @param {Request} request - The client's request.
+ * @returns {Promise<{ body: any } | { response: NextResponse }>} The parsed body, or the error response to send.
+ */
+export async function readJsonBody(request: Request): Promise<{ body: any } | { response: NextResponse }> {
+  const tooLarge = () => ({ response: respond(proxyError('PAYLOAD_TOO_LARGE', `Request body exceeds ${MAX_BODY_BYTES} bytes.`, 413)) });
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) {
+    return tooLarge();
+  }
+  // Counted while reading: a chunked body has no Content-Length, and must not be buffered whole first
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (request.body) {
+    const reader = request.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > MAX_BODY_BYTES) {
+        reader.cancel().catch(() => {});
+        return tooLarge();
+      }
+      chunks.push(value);
+    }
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  const text = new TextDecoder().decode(bytes);
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { response: respond(proxyError('INVALID_REQUEST', 'Request body is not valid JSON.', 400)) };
+  }
+}
+
+/**
+ * Builds the node URL for an RPC call and checks it against the host and endpoint allowlists.
+ * @param {string} rpcUrl - The node's base URL.
+ * @param {'GET' | 'POST'} method - The HTTP method.
+ * @param {string} endpoint - The endpoint path, with its query string.
+ * @returns {{ url: URL } | { error: UpstreamResult }} The URL to fetch, or the error to return.
+ */
+export function resolveTarget(rpcUrl: string, method: 'GET' | 'POST', endpoint: string): { url: URL } | { error: UpstreamResult } {
+  let url: URL;
+  try {
+    url = new URL(`${rpcUrl.replace(/\/+$/, '')}${endpoint}`);
+  } catch {
+    return { error: proxyError('INVALID_REQUEST', `Not a valid URL: ${rpcUrl}`, 400) };
+  }
+  if (!allowedOrigins.has(url.origin)) {
+    return { error: proxyError('HOST_NOT_ALLOWED', `This proxy does not forward requests to ${url.origin}.`, 403) };
+  }
+  if (!isAllowedEndpoint(method, endpoint)) {
+    return { error: proxyError('ENDPOINT_NOT_ALLOWED', `${method} ${endpoint.split('?')[0]} is not an allowed RPC call.`, 403) };
+  }
+  return { url };
+}
+
+/**
+ * Reads from a node through the response cache.
+ * @param {URL} url - The node URL, from resolveTarget().
+ * @param {string} endpoint - The endpoint path, used to pick the TTL.
+ * @returns {Promise<{ result: UpstreamResult; cache: CacheStatus; ageSeconds: number }>} The response and where it came from.
+ */
+export function cachedRead(url: URL, endpoint: string): Promise<{ result: UpstreamResult; cache: CacheStatus; ageSeconds: number }> {
+  return responseCache.get(url.href, endpoint, () => forward(url, 'GET'));
+}
+
+// Next.js's fetch stops honouring the signal once the headers are in, so the body read races it too
+function readBody(response: Response, signal: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      response.body?.cancel().catch(() => {});
+      reject(signal.reason);
+    };
+    if (signal.aborted) return abort();
+    signal.addEventListener('abort', abort, { once: true });
+    response.text().then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * Sends a request to a node. Failures are returned as proxy errors rather than thrown.
+ * @param {URL} url - The node URL, from resolveTarget().
+ * @param {'GET' | 'POST'} method - The HTTP method.
+ * @param {unknown} [payload] - The JSON body of a POST.
+ * @returns {Promise<UpstreamResult>} The node's answer.
+ */
+export async function forward(url: URL, method: 'GET' | 'POST', payload?: unknown): Promise<UpstreamResult> {
+  const deadline = AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: method === 'POST' ? JSON.stringify(payload) : undefined,
+      // A redirect could point anywhere, so it is never followed
+      redirect: 'error',
+      signal: deadline,
+    });
+    // The timeout also covers the body, which can stall or break off after the headers arrived
+    text = await readBody(response, deadline);
+  } catch (error: any) {
+    console.error(`Proxy ${url.origin} failed:`, error.message);
+    return error.name === 'TimeoutError'
+      ? proxyError('UPSTREAM_TIMEOUT', `${url.origin} did not answer in time.`, 504)
+      : proxyError('UPSTREAM_UNREACHABLE', `Could not reach ${url.origin}.`, 502);
+  }
+
+  // Plain-text answers are passed on as a JSON string
+  const data = parseNodeBody(text);
+
+  console.log(`Proxy ${url.origin}${url.pathname} -> ${response.status}`);
+  if (!response.ok) {
+    return proxyError('UPSTREAM_ERROR', nodeErrorMessage(data, text), response.status);
+  }
+  return { status: 200, body: data };
+}
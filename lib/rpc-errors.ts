@@ -0,0 +1,158 @@
+import { ProxyErrorCode } from '@/lib/rpc-protocol';
+
+/**
+ * Base class of every error raised while talking to an Octra node.
+ */
+export class RpcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+/**
+ * An RPC request that failed, with the HTTP status the proxy answered (0 if it was never reached)
+ * and the proxy's error code, if it sent one.
+ */
+export class RpcRequestError extends RpcError {
+  status: number;
+  code?: ProxyErrorCode;
+
+  constructor(message: string, status: number, code?: ProxyErrorCode) {
+    super(message);
+    this.name = 'RpcRequestError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * The node answered 404, e.g. for an address that has never received funds.
+ */
+export class RpcNotFoundError extends RpcRequestError {
+  constructor(message: string) {
+    super(message, 404, 'UPSTREAM_ERROR');
+    this.name = 'RpcNotFoundError';
+  }
+}
+
+/**
+ * The node answered, but not in the shape this client expects.
+ */
+export class RpcResponseError extends RpcError {
+  endpoint: string;
+
+  constructor(endpoint: string, detail: string) {
+    super(`Unexpected response from ${endpoint}: ${detail}`);
+    this.name = 'RpcResponseError';
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * The node received a transaction but did not accept it.
+ */
+export class TransactionRejectedError extends RpcError {
+  response: unknown;
+
+  constructor(response: unknown) {
+    // Prefer the node's own reason, e.g. {"error": "Invalid nonce"}
+    const reason = typeof response === 'object' && response !== null && 'error' in response ? String(response.error) : JSON.stringify(response);
+    super(`Transaction rejected: ${reason}`);
+    this.name = 'TransactionRejectedError';
+    this.response = response;
+  }
+}
+
+/**
+ * A transaction was sent, but no definite answer came back: the node may or may not have accepted it.
+ */
+export class TransactionOutcomeUnknownError extends RpcError {
+  constructor(detail: string) {
+    super(`No definite answer from the node (${detail}), so the transaction may or may not have been submitted. Check the transaction history before sending it again.`);
+    this.name = 'TransactionOutcomeUnknownError';
+  }
+}
+
+/**
+ * What went wrong, in terms the UI can act on:
+ * - offline: the browser has no network connection
+ * - timeout: a node did not answer in time
+ * - proxy: the app's /api/proxy route failed or refused the request
+ * - node-unavailable: the node was unreachable or answered 5xx/429
+ * - node-error: the node answered 4xx, e.g. for an unknown address
+ * - rejected: the node did not accept a transaction
+ * - outcome-unknown: a transaction was sent, but whether the node accepted it is unknown
+ * - invalid-response: the node answered something this client does not understand
+ * - unknown: anything else
+ */
+export type RpcErrorKind =
+  | 'offline'
+  | 'timeout'
+  | 'proxy'
+  | 'node-unavailable'
+  | 'node-error'
+  | 'rejected'
+  | 'outcome-unknown'
+  | 'invalid-response'
+  | 'unknown';
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+/**
+ * Classifies an error raised by the RPC client.
+ * @param {unknown} error - The error.
+ * @returns {RpcErrorKind} Its kind.
+ */
+export function classifyRpcError(error: unknown): RpcErrorKind {
+  if (error instanceof TransactionRejectedError) return 'rejected';
+  if (error instanceof TransactionOutcomeUnknownError) return 'outcome-unknown';
+  if (error instanceof RpcResponseError) return 'invalid-response';
+  if (!(error instanceof RpcRequestError)) return 'unknown';
+
+  // Nothing answered at all: blame the connection first
+  if (error.status === 0 && isBrowserOffline()) return 'offline';
+  switch (error.code) {
+    case 'UPSTREAM_TIMEOUT':
+      return 'timeout';
+    case 'UPSTREAM_UNREACHABLE':
+      return 'node-unavailable';
+    case 'UPSTREAM_ERROR':
+      return error.status === 429 || error.status >= 500 ? 'node-unavailable' : 'node-error';
+    default:
+      // The proxy's own refusals, or the proxy could not be reached
+      return 'proxy';
+  }
+}
+
+/**
+ * Turns an error raised by the RPC client into a message for the user.
+ * @param {unknown} error - The error.
+ * @returns {{ kind: RpcErrorKind; message: string; action: string }} What happened, and what the user can do about it.
+ */
+export function describeRpcError(error: unknown): { kind: RpcErrorKind; message: string; action: string } {
+  const kind = classifyRpcError(error);
+  const detail = error instanceof Error ? error.message : String(error);
+  switch (kind) {
+    case 'offline':
+      return { kind, message: 'You are offline.', action: 'Check your internet connection. Data refreshes once you are back online.' };
+    case 'timeout':
+      return { kind, message: 'The RPC node took too long to answer.', action: 'It may be busy. Try again in a moment.' };
+    case 'proxy':
+      return (error as RpcRequestError).code === 'RATE_LIMITED'
+        ? { kind, message: detail, action: 'Wait before refreshing again.' }
+        : { kind, message: `The RPC proxy could not handle the request: ${detail}`, action: 'Reload the page. If this persists, check the proxy configuration.' };
+    case 'node-unavailable':
+      return { kind, message: 'No RPC node of this network is available right now.', action: 'Try again later, or switch to another network.' };
+    case 'node-error':
+      return { kind, message: `The RPC node refused the request: ${detail}`, action: 'Check the address or transaction and try again.' };
+    case 'rejected':
+      return { kind, message: detail, action: 'Check the amount, nonce and balance, then send again.' };
+    case 'outcome-unknown':
+      return { kind, message: 'It is unknown whether the transaction was submitted.', action: 'Check the transaction history before sending it again.' };
+    case 'invalid-response':
+      return { kind, message: 'The RPC node sent a response this wallet does not understand.', action: 'The node may run an incompatible version. Try another network.' };
+    default:
+      return { kind, message: detail || 'An unexpected error occurred.', action: 'Try again.' };
+  }
+}
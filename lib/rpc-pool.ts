@@ -0,0 +1,223 @@
+import { ProxyErrorCode, UPSTREAM_TIMEOUT_MS } from '@/lib/rpc-protocol';
+import { classifyRpcError, RpcRequestError, TransactionOutcomeUnknownError } from '@/lib/rpc-errors';
+import { BatchItemResult, requestBatch, requestNode, RpcTransportName, transportFor } from '@/lib/rpc-transport';
+
+// Probed on every node to measure health and latency; cheap and needs no address
+const PROBE_ENDPOINT = '/staging';
+// A node slower than this is skipped in favour of the next one
+const REQUEST_TIMEOUT_MS = 8000;
+// A batch runs its calls a few at a time on the server, so it gets longer
+const BATCH_TIMEOUT_MS = 30000;
+// Outlasts the proxy's own wait for the node, so a transaction the node accepted late is not reported as failed
+const BROADCAST_TIMEOUT_MS = UPSTREAM_TIMEOUT_MS + 5000;
+// Rounds of failover a read gets before its error is reported; broadcasts get exactly one
+const MAX_READ_ATTEMPTS = 3;
+// Delay before the first retry, doubled on each further one and capped
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 4000;
+
+export interface RpcNodeStatus {
+  url: string;
+  // Nodes start healthy until a request or probe fails
+  healthy: boolean;
+  latencyMs: number | null;
+  lastError: string | null;
+  checkedAt: number | null;
+  // How the node was last reached
+  transport: RpcTransportName | null;
+}
+
+export interface RpcPoolStatus {
+  nodes: RpcNodeStatus[];
+  // The node that answered the most recent request
+  lastServedBy: { url: string; latencyMs: number } | null;
+}
+
+// Unreachable, slow and overloaded nodes are worth retrying elsewhere. The proxy's own refusals
+// (e.g. RATE_LIMITED) and the node's other answers (e.g. 404) would fail the same way on every node.
+const isNodeFailure = (error: unknown) =>
+  error instanceof RpcRequestError && (
+    error.status === 0 ||
+    error.code === 'UPSTREAM_TIMEOUT' ||
+    error.code === 'UPSTREAM_UNREACHABLE' ||
+    (error.code === 'UPSTREAM_ERROR' && (error.status === 429 || error.status >= 500))
+  );
+
+// Full jitter: a random delay up to the exponential backoff, so clients that failed together do not retry together
+const retryDelay = (attempt: number) =>
+  Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Refusals from the proxy itself, sent before anything was forwarded to the node
+const PROXY_REFUSALS: (ProxyErrorCode | undefined)[] = ['INVALID_REQUEST', 'PAYLOAD_TOO_LARGE', 'HOST_NOT_ALLOWED', 'ENDPOINT_NOT_ALLOWED', 'RATE_LIMITED'];
+
+// Answers that prove a request was not acted on: the proxy's refusals, and the node's own 4xx
+const isDefiniteRefusal = (error: unknown) =>
+  error instanceof RpcRequestError && error.status !== 0 && (
+    PROXY_REFUSALS.includes(error.code) ||
+    (error.code === 'UPSTREAM_ERROR' && error.status >= 400 && error.status < 500)
+  );
+
+/**
+ * The RPC nodes of one network. Reads go to the fastest healthy node and fail over to the next;
+ * broadcasts go to a single node so a transaction is never submitted twice.
+ */
+export class RpcPool {
+  private status: RpcPoolStatus;
+  private listeners = new Set<() => void>();
+
+  constructor(urls: string[]) {
+    this.status = {
+      nodes: urls.map(url => ({ url, healthy: true, latencyMs: null, lastError: null, checkedAt: null, transport: null })),
+      lastServedBy: null,
+    };
+  }
+
+  // Arrow functions so they can be passed to useSyncExternalStore directly
+  getStatus = (): RpcPoolStatus => this.status;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Probes every node in parallel and records its health and latency.
+   */
+  async probe(): Promise<void> {
+    await Promise.all(this.status.nodes.map(async ({ url }) => {
+      try {
+        await this.timed(url, signal => requestNode(url, PROBE_ENDPOINT, undefined, signal));
+      } catch {
+        // Recorded by timed()
+      }
+    }));
+  }
+
+  /**
+   * Reads from the fastest healthy node, trying the others in turn if it fails.
+   * If every node fails, the read is retried with exponential backoff.
+   * @param {string} endpoint - The RPC endpoint.
+   * @param {object} [payload] - The JSON body, for POST reads.
+   * @returns {Promise<unknown>} The parsed JSON response, still to be validated.
+   */
+  async read(endpoint: string, payload?: object): Promise<unknown> {
+    return this.retry(() => this.failover(url => this.timed(url, signal => requestNode(url, endpoint, payload, signal))));
+  }
+
+  /**
+   * Reads several endpoints in one round-trip, failing over and retrying like read() if the batch itself fails.
+   * @param {string[]} endpoints - The RPC endpoints.
+   * @returns {Promise<BatchItemResult[]>} One result per endpoint, in order.
+   */
+  async readBatch(endpoints: string[]): Promise<BatchItemResult[]> {
+    return this.retry(() => this.failover(url => this.timed(url, signal => requestBatch(url, endpoints, signal), BATCH_TIMEOUT_MS, false)));
+  }
+
+  /**
+   * Sends a request to the fastest healthy node only, without failover or retries.
+   * @param {string} endpoint - The RPC endpoint, e.g. /send-tx.
+   * @param {object} payload - The JSON body.
+   * @returns {Promise<unknown>} The parsed JSON response, still to be validated. Throws a TransactionOutcomeUnknownError unless the proxy or node definitely refused it.
+   */
+  async broadcast(endpoint: string, payload: object): Promise<unknown> {
+    const [node] = this.ranked();
+    if (!node) {
+      throw new RpcRequestError('No RPC node is configured for this network.', 0);
+    }
+    try {
+      return await this.timed(node.url, signal => requestNode(node.url, endpoint, payload, signal), BROADCAST_TIMEOUT_MS);
+    } catch (e) {
+      // Short of a definite refusal, the node may have received it all the same; a plain failure would invite sending it twice
+      if (isDefiniteRefusal(e)) throw e;
+      throw new TransactionOutcomeUnknownError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // Tries each node in rank order until one answers or fails for a reason other nodes would share
+  private async failover<T>(attempt: (url: string) => Promise<T>): Promise<T> {
+    let lastError: unknown = new RpcRequestError('No RPC node is configured for this network.', 0);
+    for (const { url } of this.ranked()) {
+      try {
+        return await attempt(url);
+      } catch (e) {
+        if (!isNodeFailure(e)) throw e;
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  // Repeats an idempotent read while every node fails for node reasons. Offline, there is nothing to
+  // retry against; SWR revalidates once the connection is back.
+  private async retry<T>(read: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await read();
+      } catch (e) {
+        if (attempt >= MAX_READ_ATTEMPTS || !isNodeFailure(e) || classifyRpcError(e) === 'offline') throw e;
+        await sleep(retryDelay(attempt - 1));
+      }
+    }
+  }
+
+  // Healthy nodes first, fastest first; nodes not yet measured keep their configured order
+  private ranked(): RpcNodeStatus[] {
+    return [...this.status.nodes].sort((a, b) => {
+      if (a.healthy !== b.healthy) return a.healthy ? -1 : 1;
+      return (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity);
+    });
+  }
+
+  // Runs a request against a node and records the node's health; batches do not measure latency
+  private async timed<T>(
+    url: string,
+    send: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number = REQUEST_TIMEOUT_MS,
+    measureLatency: boolean = true,
+  ): Promise<T> {
+    const start = Date.now();
+    try {
+      const data = await send(AbortSignal.timeout(timeoutMs));
+      if (!measureLatency) {
+        this.update(url, { healthy: true, lastError: null, transport: transportFor(url) });
+      } else {
+        const latencyMs = Date.now() - start;
+        this.update(url, { healthy: true, latencyMs, lastError: null, transport: transportFor(url) }, { url, latencyMs });
+      }
+      return data;
+    } catch (e: any) {
+      // Offline, every node fails alike; that says nothing about the node
+      if (isNodeFailure(e) && classifyRpcError(e) !== 'offline') {
+        this.update(url, { healthy: false, lastError: e.message, transport: transportFor(url) });
+      }
+      throw e;
+    }
+  }
+
+  private update(url: string, patch: Partial<RpcNodeStatus>, servedBy?: RpcPoolStatus['lastServedBy']) {
+    this.status = {
+      nodes: this.status.nodes.map(node => (node.url === url ? { ...node, ...patch, checkedAt: Date.now() } : node)),
+      lastServedBy: servedBy ?? this.status.lastServedBy,
+    };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const pools = new Map<string, RpcPool>();
+
+/**
+ * Returns the shared pool for a set of node URLs, so health data survives re-renders.
+ * @param {string[]} urls - The network's RPC URLs, in preference order.
+ * @returns {RpcPool} The pool.
+ */
+export function getRpcPool(urls: string[]): RpcPool {
+  const key = urls.join('\n');
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new RpcPool(urls);
+    pools.set(key, pool);
+  }
+  return pool;
+}
@@ -0,0 +1,42 @@
+// The contract between the browser and the /api/proxy routes, imported by both sides.
+// Server-only policy lives in lib/proxy-policy; browser-only transport code in lib/rpc-transport.
+
+// Error codes returned by /api/proxy alongside the message, so the client can tell the proxy's refusals from node failures
+export type ProxyErrorCode =
+  | 'INVALID_REQUEST'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'HOST_NOT_ALLOWED'
+  | 'ENDPOINT_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNREACHABLE'
+  | 'UPSTREAM_ERROR';
+
+// How long the proxy waits for a node's full answer
+export const UPSTREAM_TIMEOUT_MS = 10000;
+
+// Calls of a batch that run against the node at once, through the proxy or directly
+export const BATCH_CONCURRENCY = 4;
+
+/**
+ * Parses a node's response body. Some answers are plain text, e.g. "ok <hash>"; they are returned as a string.
+ * @param {string} text - The response body.
+ * @returns {unknown} The parsed JSON, or the text itself.
+ */
+export function parseNodeBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Extracts the message of a node's error response.
+ * @param {unknown} data - The parsed response body.
+ * @param {string} text - The raw response body.
+ * @returns {string} The node's error message.
+ */
+export function nodeErrorMessage(data: unknown, text: string): string {
+  return typeof data === 'object' && data !== null && 'error' in data ? String(data.error) : text || 'RPC Error';
+}
@@ -0,0 +1,74 @@
+// Minimal runtime validators for RPC responses. Each schema returns the value with its static type,
+// or throws a SchemaError naming the path of the first field that does not match.
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+  constructor(path: string, expected: string, value: unknown) {
+    super(`${path} should be ${expected}, got ${value === null ? 'null' : typeof value}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'a string', value);
+  return value;
+};
+
+// Nodes send some numbers as strings (e.g. "12.5"); both forms are accepted
+export const number: Schema<number> = (value, path) => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) throw new SchemaError(path, 'a number', value);
+  return parsed;
+};
+
+export const integer: Schema<number> = (value, path) => {
+  const parsed = number(value, path);
+  if (!Number.isInteger(parsed)) throw new SchemaError(path, 'an integer', value);
+  return parsed;
+};
+
+// Amounts are kept as strings so no precision is lost; numbers are converted
+export const numericString: Schema<string> = (value, path) => {
+  number(value, path);
+  return String(value);
+};
+
+export const literal = <T extends string>(expected: T): Schema<T> => (value, path) => {
+  if (value !== expected) throw new SchemaError(path, `"${expected}"`, value);
+  return expected;
+};
+
+// Missing and null fields both become undefined
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : schema(value, path);
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'an array', value);
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+export const record: Schema<Record<string, unknown>> = (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'an object', value);
+  return value as Record<string, unknown>;
+};
+
+// Unknown fields are dropped so only validated data reaches the UI
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (value, path) => {
+  const source = record(value, path);
+  const result = {} as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const field = shape[key](source[key], `${path}.${key}`);
+    if (field !== undefined) result[key] = field;
+  }
+  return result;
+};
+
+/**
+ * Validates a value against a schema.
+ * @param {Schema<T>} schema - The expected shape.
+ * @param {unknown} value - The parsed JSON.
+ * @returns {T} The validated value. Throws a SchemaError otherwise.
+ */
+export function parse<T>(schema: Schema<T>, value: unknown): T {
+  return schema(value, 'response');
+}
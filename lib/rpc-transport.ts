@@ -0,0 +1,206 @@
+import { RpcNotFoundError, RpcRequestError } from '@/lib/rpc-errors';
+import { BATCH_CONCURRENCY, nodeErrorMessage, parseNodeBody } from '@/lib/rpc-protocol';
+import { mapWithConcurrency } from '@/lib/utils';
+
+// The outcome of one call in a batch
+export type BatchItemResult = { ok: true; data: unknown } | { ok: false; error: RpcRequestError };
+
+export type RpcTransportName = 'proxy' | 'direct';
+
+/**
+ * How RPC calls reach a node: through the app's /api/proxy route, or straight from the browser.
+ */
+export interface RpcTransport {
+  name: RpcTransportName;
+  /**
+   * Sends one request to a node.
+   * @param {string} rpcUrl - The node's base URL.
+   * @param {string} endpoint - The RPC endpoint, e.g. /balance/oct...
+   * @param {object} [payload] - The JSON body; the request is a GET when omitted.
+   * @param {AbortSignal} [signal] - Aborts the request.
+   * @returns {Promise<unknown>} The parsed JSON response. Throws an RpcRequestError otherwise.
+   */
+  request(rpcUrl: string, endpoint: string, payload?: object, signal?: AbortSignal): Promise<unknown>;
+  /**
+   * Sends several GET calls to a node.
+   * @param {string} rpcUrl - The node's base URL.
+   * @param {string[]} endpoints - The RPC endpoints.
+   * @param {AbortSignal} [signal] - Aborts the request.
+   * @returns {Promise<BatchItemResult[]>} One result per endpoint, in order. Throws an RpcRequestError if the batch itself failed.
+   */
+  requestBatch(rpcUrl: string, endpoints: string[], signal?: AbortSignal): Promise<BatchItemResult[]>;
+}
+
+// Set by `npm run build:static`; a static export has no /api routes
+const IS_STATIC_EXPORT = process.env.STATIC_EXPORT === 'true';
+
+// Builds the error for a failed proxy answer
+const toRequestError = (status: number, errorData: any): RpcRequestError => {
+  const message = errorData?.error || 'An error occurred while fetching the data.';
+  // A 404 from the proxy itself would carry another code; only the node's own 404 means "not found"
+  return status === 404 && errorData?.code === 'UPSTREAM_ERROR'
+    ? new RpcNotFoundError(message)
+    : new RpcRequestError(message, status, errorData?.code);
+};
+
+// One call of a batch as the proxy's batch route answers it
+type ProxyBatchItem = { status: number; body: unknown };
+
+const isProxyBatchItem = (value: unknown): value is ProxyBatchItem =>
+  typeof value === 'object' && value !== null && 'status' in value && typeof value.status === 'number' && 'body' in value;
+
+async function postToProxy(path: string, body: object, rpcUrl: string, signal?: AbortSignal): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (e: any) {
+    throw e.name === 'TimeoutError'
+      ? new RpcRequestError(`${rpcUrl} did not answer in time`, 0, 'UPSTREAM_TIMEOUT')
+      : new RpcRequestError(`Could not reach the RPC proxy: ${e.message}`, 0);
+  }
+
+  if (!response.ok) {
+    throw toRequestError(response.status, await response.json().catch(() => ({})));
+  }
+  try {
+    return await response.json();
+  } catch (e: any) {
+    throw e.name === 'TimeoutError'
+      ? new RpcRequestError(`${rpcUrl} did not answer in time`, 0, 'UPSTREAM_TIMEOUT')
+      : new RpcRequestError(`The RPC proxy broke off its answer: ${e.message}`, 0);
+  }
+}
+
+// Through the Next.js API routes, which apply the server's allowlists, rate limits and cache
+export const proxyTransport: RpcTransport = {
+  name: 'proxy',
+  request: (rpcUrl, endpoint, payload, signal) => postToProxy('/api/proxy', {
+    // For GET requests, payload will be undefined.
+    // Our proxy will interpret this as a GET request to the RPC.
+    method: payload ? 'POST' : 'GET',
+    endpoint,
+    rpcUrl,
+    payload,
+  }, rpcUrl, signal),
+  requestBatch: async (rpcUrl, endpoints, signal) => {
+    const answer = await postToProxy('/api/proxy/batch', { rpcUrl, endpoints }, rpcUrl, signal);
+    const results = typeof answer === 'object' && answer !== null && 'results' in answer ? answer.results : undefined;
+    if (!Array.isArray(results) || results.length !== endpoints.length || !results.every(isProxyBatchItem)) {
+      throw new RpcRequestError('The RPC proxy sent a malformed batch answer', 0);
+    }
+    return results.map((item): BatchItemResult => (
+      item.status === 200 ? { ok: true, data: item.body } : { ok: false, error: toRequestError(item.status, item.body) }
+    ));
+  },
+};
+
+// Straight to the node, which must allow cross-origin requests. Errors carry the proxy's codes so both transports fail alike.
+export const directTransport: RpcTransport = {
+  name: 'direct',
+  request: async (rpcUrl, endpoint, payload, signal) => {
+    let response: Response;
+    try {
+      response = await fetch(`${rpcUrl.replace(/\/+$/, '')}${endpoint}`, {
+        method: payload ? 'POST' : 'GET',
+        headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+        body: payload ? JSON.stringify(payload) : undefined,
+        signal,
+      });
+    } catch (e: any) {
+      // Browsers report a CORS refusal as a plain network error
+      throw e.name === 'TimeoutError'
+        ? new RpcRequestError(`${rpcUrl} did not answer in time`, 0, 'UPSTREAM_TIMEOUT')
+        : new RpcRequestError(`Could not reach ${rpcUrl}. The node may not allow requests from this site (CORS).`, 0, 'UPSTREAM_UNREACHABLE');
+    }
+
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (e: any) {
+      // The answer stalled or broke off after its headers
+      throw e.name === 'TimeoutError'
+        ? new RpcRequestError(`${rpcUrl} did not answer in time`, 0, 'UPSTREAM_TIMEOUT')
+        : new RpcRequestError(`${rpcUrl} broke off its answer`, 0, 'UPSTREAM_UNREACHABLE');
+    }
+    const data = parseNodeBody(text);
+    if (!response.ok) {
+      throw toRequestError(response.status, { error: nodeErrorMessage(data, text), code: 'UPSTREAM_ERROR' });
+    }
+    return data;
+  },
+  requestBatch: (rpcUrl, endpoints, signal) => mapWithConcurrency(endpoints, BATCH_CONCURRENCY, async (endpoint): Promise<BatchItemResult> => {
+    try {
+      return { ok: true, data: await directTransport.request(rpcUrl, endpoint, undefined, signal) };
+    } catch (e) {
+      if (e instanceof RpcRequestError && e.status !== 0) return { ok: false, error: e };
+      // The node itself is unreachable: fail the whole batch so the pool can fail over
+      throw e;
+    }
+  }),
+};
+
+// Nodes the proxy turned out not to serve; they are reached directly from then on
+const directNodes = new Set<string>();
+
+// The proxy cannot serve this node: its host is not allowlisted, or there is no proxy at all (static hosting answers 404 or 405)
+const proxyUnusable = (error: unknown) =>
+  error instanceof RpcRequestError && (
+    error.code === 'HOST_NOT_ALLOWED' ||
+    (error.code === undefined && (error.status === 404 || error.status === 405))
+  );
+
+const currentTransport = (rpcUrl: string): RpcTransport =>
+  IS_STATIC_EXPORT || directNodes.has(rpcUrl) ? directTransport : proxyTransport;
+
+/**
+ * Returns the transport a node is reached through: the proxy by default, direct in a static export
+ * or once the proxy turned out not to serve the node.
+ * @param {string} rpcUrl - The node's base URL.
+ * @returns {RpcTransportName} The transport's name.
+ */
+export function transportFor(rpcUrl: string): RpcTransportName {
+  return currentTransport(rpcUrl).name;
+}
+
+// Tries the node's current transport, and switches it to direct if the proxy cannot serve it.
+// The proxy refused before forwarding anything, so even a transaction is safe to resend.
+async function withFallback<T>(rpcUrl: string, send: (transport: RpcTransport) => Promise<T>): Promise<T> {
+  const transport = currentTransport(rpcUrl);
+  try {
+    return await send(transport);
+  } catch (e) {
+    if (transport !== proxyTransport || !proxyUnusable(e)) throw e;
+    directNodes.add(rpcUrl);
+    return send(directTransport);
+  }
+}
+
+/**
+ * Sends one request to a node through its transport; see transportFor().
+ * @param {string} rpcUrl - The node's base URL.
+ * @param {string} endpoint - The RPC endpoint, e.g. /balance/oct...
+ * @param {object} [payload] - The JSON body; the request is a GET when omitted.
+ * @param {AbortSignal} [signal] - Aborts the request.
+ * @returns {Promise<unknown>} The parsed JSON response. Throws an RpcRequestError otherwise.
+ */
+export function requestNode(rpcUrl: string, endpoint: string, payload?: object, signal?: AbortSignal): Promise<unknown> {
+  return withFallback(rpcUrl, transport => transport.request(rpcUrl, endpoint, payload, signal));
+}
+
+/**
+ * Sends several GET calls to a node through its transport; see transportFor().
+ * @param {string} rpcUrl - The node's base URL.
+ * @param {string[]} endpoints - The RPC endpoints.
+ * @param {AbortSignal} [signal] - Aborts the request.
+ * @returns {Promise<BatchItemResult[]>} One result per endpoint, in order.
+ */
+export function requestBatch(rpcUrl: string, endpoints: string[], signal?: AbortSignal): Promise<BatchItemResult[]> {
+  return withFallback(rpcUrl, transport => transport.requestBatch(rpcUrl, endpoints, signal));
+}
@@ -0,0 +1,179 @@
+import base58 from 'bs58';
+import { createHash, randomBytes } from 'crypto';
+
+const SHARE_PREFIX = 'octshare';
+const SHARE_VERSION = 1;
+// version, set id (2 bytes), threshold, share index
+const HEADER_LENGTH = 5;
+const CHECKSUM_LENGTH = 4;
+// Characters per group in the printed share
+const GROUP_SIZE = 5;
+
+export const MAX_SHARES = 16;
+
+export interface EntropyShare {
+  setId: number;
+  threshold: number;
+  index: number;
+  data: Buffer;
+}
+
+// GF(256) log/exp tables over the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Splits entropy into shares, any threshold of which recover it.
+ * Each byte is the constant term of its own random polynomial of degree threshold - 1.
+ * @param {string} entropyHex - The mnemonic entropy (`entropy_hex` of WalletData).
+ * @param {number} threshold - How many shares are needed to recover the entropy.
+ * @param {number} count - How many shares to create.
+ * @returns {string[]} The printable shares.
+ */
+export function splitEntropy(entropyHex: string, threshold: number, count: number): string[] {
+  const secret = Buffer.from(entropyHex, 'hex');
+  if (secret.length === 0) {
+    throw new Error('This wallet has no mnemonic entropy to split.');
+  }
+  if (!Number.isInteger(count) || count < 2 || count > MAX_SHARES) {
+    throw new Error(`The number of shares must be between 2 and ${MAX_SHARES}.`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > count) {
+    throw new Error(`The threshold must be between 2 and the number of shares (${count}).`);
+  }
+
+  const setId = randomBytes(2).readUInt16BE(0);
+  const coefficients = Array.from({ length: secret.length }, () => randomBytes(threshold - 1));
+  const shares: string[] = [];
+  for (let index = 1; index <= count; index++) {
+    const data = Buffer.alloc(secret.length);
+    secret.forEach((byte, i) => {
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 2; c >= 0; c--) {
+        y = gfMul(y, index) ^ coefficients[i][c];
+      }
+      data[i] = gfMul(y, index) ^ byte;
+    });
+    shares.push(encodeShare({ setId, threshold, index, data }));
+  }
+  return shares;
+}
+
+/**
+ * Recovers entropy from shares of the same set.
+ * @param {string[]} shareStrings - The printable shares; at least the threshold must be given.
+ * @returns {string} The entropy as hex.
+ */
+export function combineShares(shareStrings: string[]): string {
+  const shares = shareStrings.map(decodeShare);
+  if (shares.length === 0) {
+    throw new Error('Enter at least one share.');
+  }
+
+  const [first] = shares;
+  for (const share of shares) {
+    if (share.setId !== first.setId || share.threshold !== first.threshold || share.data.length !== first.data.length) {
+      throw new Error(`Share #${share.index} belongs to a different backup than share #${first.index}.`);
+    }
+  }
+  const unique = shares.filter((share, i) => shares.findIndex(s => s.index === share.index) === i);
+  if (unique.length < first.threshold) {
+    throw new Error(`This backup needs ${first.threshold} different shares, but only ${unique.length} ${unique.length === 1 ? 'was' : 'were'} given.`);
+  }
+
+  // Lagrange interpolation at x = 0 with the first threshold shares
+  const used = unique.slice(0, first.threshold);
+  const secret = Buffer.alloc(first.data.length);
+  for (let i = 0; i < secret.length; i++) {
+    let value = 0;
+    for (const share of used) {
+      let basis = 1;
+      for (const other of used) {
+        if (other.index !== share.index) {
+          basis = gfMul(basis, gfDiv(other.index, other.index ^ share.index));
+        }
+      }
+      value ^= gfMul(share.data[i], basis);
+    }
+    secret[i] = value;
+  }
+  return secret.toString('hex');
+}
+
+/**
+ * Encodes a share as a printable string with a checksum.
+ * Format: octshare- followed by Base58(header ‖ data ‖ SHA256 checksum) in dash-separated groups.
+ * @param {EntropyShare} share - The share.
+ * @returns {string} The printable share.
+ */
+export function encodeShare(share: EntropyShare): string {
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header.writeUInt8(SHARE_VERSION, 0);
+  header.writeUInt16BE(share.setId, 1);
+  header.writeUInt8(share.threshold, 3);
+  header.writeUInt8(share.index, 4);
+  const payload = Buffer.concat([header, share.data]);
+  const encoded = base58.encode(Buffer.concat([payload, shareChecksum(payload)]));
+  const groups = encoded.match(new RegExp(`.{1,${GROUP_SIZE}}`, 'g')) ?? [];
+  return [SHARE_PREFIX, ...groups].join('-');
+}
+
+/**
+ * Decodes and verifies a printable share.
+ * @param {string} value - The printable share; spaces and dashes between groups are ignored.
+ * @returns {EntropyShare} The share.
+ */
+export function decodeShare(value: string): EntropyShare {
+  const compact = value.replace(/[\s-]/g, '');
+  if (!compact.toLowerCase().startsWith(SHARE_PREFIX)) {
+    throw new Error(`Not an Octra backup share: ${value.slice(0, 16) || 'empty'}...`);
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = Buffer.from(base58.decode(compact.slice(SHARE_PREFIX.length)));
+  } catch {
+    throw new Error('Share contains characters that are not valid Base58. Check it for typos.');
+  }
+  if (bytes.length <= HEADER_LENGTH + CHECKSUM_LENGTH) {
+    throw new Error('Share is too short. Check that it was copied completely.');
+  }
+
+  const payload = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH);
+  if (!shareChecksum(payload).equals(bytes.subarray(bytes.length - CHECKSUM_LENGTH))) {
+    throw new Error('Share checksum does not match. Check it for typos.');
+  }
+  if (payload[0] !== SHARE_VERSION) {
+    throw new Error(`Unsupported share version ${payload[0]}.`);
+  }
+  return {
+    setId: payload.readUInt16BE(1),
+    threshold: payload[3],
+    index: payload[4],
+    data: Buffer.from(payload.subarray(HEADER_LENGTH)),
+  };
+}
+
+function shareChecksum(payload: Buffer): Buffer {
+  return createHash('sha256').update(payload).digest().subarray(0, CHECKSUM_LENGTH);
+}
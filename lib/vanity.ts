@@ -0,0 +1,100 @@
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// A 32-byte hash nearly always encodes to 44 Base58 characters, whose first character is one of these
+const COMMON_FIRST_CHARS = '23456789ABCDEFGH';
+
+export type VanityMode = 'keypair' | 'mnemonic';
+export type VanityPosition = 'prefix' | 'suffix';
+
+export interface VanityPattern {
+  text: string;
+  position: VanityPosition;
+  caseSensitive: boolean;
+}
+
+export interface VanitySearchRequest extends VanityPattern {
+  mode: VanityMode;
+  // Mnemonic entropy bits, only used in mnemonic mode
+  strength: number;
+}
+
+export type VanityWorkerMessage =
+  | { type: 'progress'; attempts: number }
+  // secret is the private key (Base64) in keypair mode, or the entropy (hex) in mnemonic mode
+  | { type: 'found'; attempts: number; address: string; secret: string };
+
+/**
+ * Validates a vanity pattern against the Base58 alphabet.
+ * @param {VanityPattern} pattern - The requested prefix or suffix, without the "oct" part.
+ * @returns {boolean} Returns true if valid, otherwise throws an error.
+ */
+export function validateVanityPattern(pattern: VanityPattern): boolean {
+  if (!pattern.text) {
+    throw new Error('Enter the characters to search for.');
+  }
+  for (const char of pattern.text) {
+    if (candidatesFor(char, pattern.caseSensitive) === 0) {
+      throw new Error(`"${char}" never appears in an address. Base58 excludes 0, O, I and l.`);
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks whether a prefix starts with a character that addresses rarely start with.
+ * @param {VanityPattern} pattern - The requested pattern.
+ * @returns {boolean} True if the search will take far longer than the pattern length suggests.
+ */
+export function isRareVanityPrefix(pattern: VanityPattern): boolean {
+  return pattern.position === 'prefix' && !!pattern.text && firstCharProbability(pattern.text[0], pattern.caseSensitive) < 1 / COMMON_FIRST_CHARS.length;
+}
+
+/**
+ * Estimates how many addresses must be tried on average to find a match.
+ * @param {VanityPattern} pattern - The requested pattern.
+ * @returns {number} The expected number of attempts.
+ */
+export function estimateVanityAttempts(pattern: VanityPattern): number {
+  let probability = 1;
+  [...pattern.text].forEach((char, index) => {
+    probability *= pattern.position === 'prefix' && index === 0
+      ? firstCharProbability(char, pattern.caseSensitive)
+      : candidatesFor(char, pattern.caseSensitive) / BASE58_ALPHABET.length;
+  });
+  return 1 / probability;
+}
+
+/**
+ * Builds a matcher for addresses against a validated pattern.
+ * @param {VanityPattern} pattern - The requested pattern.
+ * @returns {(address: string) => boolean} True for addresses that match.
+ */
+export function createVanityMatcher(pattern: VanityPattern): (address: string) => boolean {
+  const text = pattern.caseSensitive ? pattern.text : pattern.text.toLowerCase();
+  const normalize = (address: string) => pattern.caseSensitive ? address : address.toLowerCase();
+  return pattern.position === 'prefix'
+    ? (address) => normalize(address).startsWith('oct' + text)
+    : (address) => normalize(address).endsWith(text);
+}
+
+// Number of Base58 characters a pattern character matches
+function candidatesFor(char: string, caseSensitive: boolean): number {
+  if (caseSensitive) {
+    return BASE58_ALPHABET.includes(char) ? 1 : 0;
+  }
+  return [char.toLowerCase(), char.toUpperCase()]
+    .filter((candidate, i, all) => all.indexOf(candidate) === i && BASE58_ALPHABET.includes(candidate))
+    .length;
+}
+
+// Approximate chance that the first character after "oct" matches
+function firstCharProbability(char: string, caseSensitive: boolean): number {
+  const variants = caseSensitive ? [char] : [char.toLowerCase(), char.toUpperCase()];
+  return [...new Set(variants)].reduce((sum, candidate) => {
+    if (COMMON_FIRST_CHARS.includes(candidate)) {
+      return sum + 1 / COMMON_FIRST_CHARS.length;
+    }
+    // Only the few percent of hashes that encode to 43 characters can start with anything else
+    return BASE58_ALPHABET.includes(candidate) ? sum + 1 / (COMMON_FIRST_CHARS.length * BASE58_ALPHABET.length) : sum;
+  }, 0);
+}
@@ -0,0 +1,44 @@
+import { sign } from 'tweetnacl';
+import { encodeBase64 } from 'tweetnacl-util';
+import { randomBytes } from 'crypto';
+import { addressFromEntropy, createOctraAddress } from '@/lib/crypto';
+import { createVanityMatcher, VanitySearchRequest, VanityWorkerMessage } from '@/lib/vanity';
+
+// How often the attempt count is reported to the page
+const PROGRESS_INTERVAL_MS = 500;
+
+const post = (message: VanityWorkerMessage) => self.postMessage(message);
+
+// Searches until a match is found; the page terminates the worker to cancel
+self.onmessage = (event: MessageEvent<VanitySearchRequest>) => {
+  const request = event.data;
+  const matches = createVanityMatcher(request);
+  let attempts = 0;
+  let reported = 0;
+  let lastReport = Date.now();
+
+  for (;;) {
+    let address: string;
+    let secret: string;
+    if (request.mode === 'mnemonic') {
+      const entropy = randomBytes(request.strength / 8);
+      secret = entropy.toString('hex');
+      address = addressFromEntropy(entropy);
+    } else {
+      const keyPair = sign.keyPair();
+      secret = encodeBase64(keyPair.secretKey.slice(0, 32));
+      address = createOctraAddress(Buffer.from(keyPair.publicKey));
+    }
+    attempts++;
+
+    if (matches(address)) {
+      post({ type: 'found', attempts: attempts - reported, address, secret });
+      return;
+    }
+    if (Date.now() - lastReport >= PROGRESS_INTERVAL_MS) {
+      post({ type: 'progress', attempts: attempts - reported });
+      reported = attempts;
+      lastReport = Date.now();
+    }
+  }
+};
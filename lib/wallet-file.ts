@@ -0,0 +1,151 @@
+import { deriveAddress, derivePrivateKeyFromMnemonic, derivePublicKey, normalizePrivateKey, WalletData } from '@/lib/crypto';
+import { DEFAULT_NETWORK } from '@/lib/networks';
+
+
+export type WalletFileFormat = 'txt' | 'cli-json';
+
+export interface ParsedWalletFile {
+  format: WalletFileFormat;
+  privateKey: string;
+  address: string;
+  rpcUrl?: string;
+}
+
+interface ExportableWallet {
+  privateKey: string;
+  publicKey: string;
+  address: string;
+}
+
+/**
+ * Formats a wallet as the text file offered for download when a wallet is created.
+ * @param {ExportableWallet} wallet - The keys and address to write.
+ * @param {WalletData} [generated] - The full generation output, adding the mnemonic and technical details.
+ * @returns {string} The file content.
+ */
+export function formatWalletTxt(wallet: ExportableWallet, generated?: WalletData): string {
+  const header = `OCTRA WALLET
+${"=".repeat(50)}
+
+SECURITY WARNING: KEEP THIS FILE SECURE AND NEVER SHARE YOUR PRIVATE KEY OR MNEMONIC
+
+Generated: ${new Date().toISOString().replace("T", " ").slice(0, 19)}
+Address Format: oct + Base58(SHA256(pubkey))
+
+`;
+  const keys = `Private Key (B64): ${wallet.privateKey}
+Public Key (B64): ${wallet.publicKey}
+Address: ${wallet.address}
+`;
+  // Key pairs without a mnemonic (e.g. from the vanity generator) have no further details to write
+  if (!generated || generated.mnemonic.length === 0) {
+    return header + keys;
+  }
+
+  const passphraseNote = generated.has_passphrase
+    ? "BIP39 Passphrase: REQUIRED (not stored in this file; the mnemonic alone does not restore this wallet)\n"
+    : "";
+
+  return `${header}Mnemonic: ${generated.mnemonic.join(" ")}
+${passphraseNote}${keys}
+Technical Details:
+Entropy: ${generated.entropy_hex}
+Seed: ${generated.seed_hex}
+Master Chain Code: ${generated.master_chain_hex}
+Signature Algorithm: Ed25519
+Derivation: BIP39-compatible (PBKDF2-HMAC-SHA512, 2048 iterations)
+Test Message: ${generated.test_message}
+Test Signature: ${generated.test_signature}
+Signature Valid: ${generated.signature_valid}
+`;
+}
+
+/**
+ * Formats a wallet as the official TUI client's wallet.json.
+ * @param {ExportableWallet} wallet - The keys and address to write.
+ * @param {string} [rpcUrl] - The RPC endpoint the CLI should use.
+ * @returns {string} The file content.
+ */
+export function formatCliWalletJson(wallet: ExportableWallet, rpcUrl: string = DEFAULT_NETWORK.rpcUrls[0]): string {
+  return JSON.stringify({ priv: wallet.privateKey, addr: wallet.address, rpc: rpcUrl }, null, 2);
+}
+
+/**
+ * Parses a wallet file written by this client or by the official TUI client.
+ * The stored address must match the one derived from the private key.
+ * @param {string} content - The file content.
+ * @returns {ParsedWalletFile} The private key and address, and the RPC URL for CLI files.
+ */
+export function parseWalletFile(content: string): ParsedWalletFile {
+  const trimmed = content.trim();
+  let parsed: ParsedWalletFile;
+
+  if (trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Wallet file looks like JSON but could not be parsed.');
+    }
+    if (typeof json !== 'object' || json === null || !('priv' in json) || !('addr' in json)
+      || typeof json.priv !== 'string' || typeof json.addr !== 'string') {
+      throw new Error('Wallet JSON must contain "priv" and "addr" fields.');
+    }
+    parsed = {
+      format: 'cli-json',
+      privateKey: json.priv.trim(),
+      address: json.addr.trim(),
+      rpcUrl: 'rpc' in json && typeof json.rpc === 'string' ? json.rpc : undefined,
+    };
+  } else {
+    const privateKey = trimmed.match(/^Private Key \(B64\):\s*(\S+)\s*$/m)?.[1];
+    const mnemonic = trimmed.match(/^Mnemonic:\s*(.+?)\s*$/m)?.[1];
+    const address = trimmed.match(/^Address:\s*(\S+)\s*$/m)?.[1];
+    if (!address || (!privateKey && !mnemonic)) {
+      throw new Error('Unrecognized wallet file. Expected an Octra wallet .txt file or a wallet.json from the official client.');
+    }
+    parsed = {
+      format: 'txt',
+      privateKey: privateKey ?? derivePrivateKeyFromMnemonic(mnemonic!),
+      address,
+    };
+  }
+
+  parsed.privateKey = normalizePrivateKey(parsed.privateKey).privateKey;
+  const derivedAddress = deriveAddress(parsed.privateKey);
+  if (derivedAddress !== parsed.address) {
+    throw new Error(`Address mismatch: the file says ${parsed.address}, but its private key belongs to ${derivedAddress}.`);
+  }
+  return parsed;
+}
+
+/**
+ * Builds the exportable form of a private key.
+ * @param {string} privateKeyB64 - The Base64 encoded private key string.
+ * @returns {ExportableWallet} The private key with its public key and address.
+ */
+export function toExportableWallet(privateKeyB64: string): ExportableWallet {
+  return {
+    privateKey: privateKeyB64,
+    publicKey: derivePublicKey(privateKeyB64),
+    address: deriveAddress(privateKeyB64),
+  };
+}
+
+/**
+ * Saves text content as a file through the browser's download prompt.
+ * @param {string} filename - The suggested file name.
+ * @param {string} content - The file content.
+ * @param {string} type - The MIME type.
+ */
+export function downloadTextFile(filename: string, content: string, type: string = "text/plain") {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -1,8 +1,21 @@
 import type { NextConfig } from "next";
 
+// `npm run build:static` exports plain files for static hosting (IPFS, GitHub Pages). There is no server
+// to run the RPC proxy, so its route handlers (route.ts) are left out and the client calls nodes directly.
+const isStaticExport = process.env.STATIC_EXPORT === 'true';
+
 const nextConfig: NextConfig = {
   reactStrictMode: true, // Optional: buat mode strict React
   // Hapus experimental.instrumentationHook karena udah gak perlu
+  ...(isStaticExport && {
+    output: 'export',
+    // Two entries: Next passes a one-entry list to its loaders as a plain string
+    pageExtensions: ['tsx', 'jsx'],
+    images: { unoptimized: true },
+  }),
+  env: {
+    STATIC_EXPORT: String(isStaticExport),
+  },
 };
 
-export default nextConfig;
\ No newline at end of file
+export default nextConfig;
@@ -0,0 +1,262 @@
+// A local stand-in for an Octra node, for development and tests without real funds or network access.
+// State lives in memory and is lost on restart.
+//
+//   npm run mock-node
+//
+// Environment:
+//   MOCK_NODE_PORT       Port to listen on (default 8765)
+//   MOCK_EPOCH_SECONDS   How often staged transactions are confirmed (default 10)
+//   MOCK_GENESIS         Starting balances in OCT, e.g. "octAbc...:1000,octDef...:50"
+//
+// Control endpoints (called directly, not through the web client's proxy):
+//   POST /_mock/fund      {"address": "oct...", "amount": 100}   Credits an address with OCT
+//   POST /_mock/failures  {"mode": "timeout", "endpoint": "/balance", "count": 2}
+//                         Makes the next `count` matching requests fail. Modes:
+//                           timeout         Answers after 15 seconds, past the proxy's timeout
+//                           error           Answers 500
+//                           reject          /send-tx answers that the transaction was rejected
+//                           nonce-conflict  /send-tx answers that the nonce is already used
+//   DELETE /_mock/failures                                       Clears scripted failures
+//   POST /_mock/epoch                                            Confirms staged transactions now
+//   GET  /_mock/state                                            Dumps the whole state
+//
+// Explorer links of the "Local Mock Node" network profile point to /explorer/tx/<hash> and
+// /explorer/addr/<address>, which answer with the same JSON as /tx and /address.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+
+const PORT = Number(process.env.MOCK_NODE_PORT ?? 8765);
+const EPOCH_MS = Number(process.env.MOCK_EPOCH_SECONDS ?? 10) * 1000;
+const MICRO = 1_000_000;
+const FAILURE_MODES = ['timeout', 'error', 'reject', 'nonce-conflict'];
+// So a static build of the client can call the node directly
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type' };
+
+// address -> { balance (micro-OCT), nonce }
+const accounts = new Map();
+// Transactions waiting for the next epoch, in submission order
+let staged = [];
+// hash -> { tx, epoch }
+const confirmed = new Map();
+// address -> [{ hash, epoch }], newest first
+const history = new Map();
+// { mode, endpoint, remaining }
+let failures = [];
+let epoch = 1;
+
+const addressOf = publicKey => 'oct' + bs58.encode(createHash('sha256').update(publicKey).digest());
+const formatOct = micro => (micro / MICRO).toFixed(6);
+
+function account(address) {
+  if (!accounts.has(address)) accounts.set(address, { balance: 0, nonce: 0 });
+  return accounts.get(address);
+}
+
+for (const entry of (process.env.MOCK_GENESIS ?? '').split(',').filter(Boolean)) {
+  const [address, amount] = entry.split(':');
+  account(address.trim()).balance += Math.round(Number(amount) * MICRO);
+}
+
+// The nonce a sender's next transaction must carry, counting its staged transactions
+function expectedNonce(address) {
+  const pending = staged.filter(tx => tx.from === address).map(tx => tx.nonce);
+  return Math.max(accounts.get(address)?.nonce ?? 0, ...pending) + 1;
+}
+
+function pendingAmount(address) {
+  return staged.filter(tx => tx.from === address).reduce((sum, tx) => sum + Number(tx.amount), 0);
+}
+
+// Checks a signed transaction as the real node does; returns an error message, or null if it is valid
+function validateTransaction(tx) {
+  for (const field of ['from', 'to_', 'amount', 'ou', 'signature', 'public_key']) {
+    if (typeof tx[field] !== 'string') return `Missing field: ${field}`;
+  }
+  if (!Number.isInteger(tx.nonce) || typeof tx.timestamp !== 'number') return 'Missing field: nonce or timestamp';
+  if (!/^\d+$/.test(tx.amount) || Number(tx.amount) <= 0) return 'Invalid amount';
+
+  const publicKey = Buffer.from(tx.public_key, 'base64');
+  const signature = Buffer.from(tx.signature, 'base64');
+  if (publicKey.length !== 32 || signature.length !== 64) return 'Invalid public key or signature length';
+  if (addressOf(publicKey) !== tx.from) return 'Public key does not match sender address';
+
+  // The client signs these fields, in this order, as compact JSON
+  const signable = JSON.stringify({ from: tx.from, to_: tx.to_, amount: tx.amount, nonce: tx.nonce, ou: tx.ou, timestamp: tx.timestamp });
+  if (!nacl.sign.detached.verify(new TextEncoder().encode(signable), signature, publicKey)) return 'Invalid signature';
+
+  const sender = accounts.get(tx.from);
+  if (!sender) return 'Sender not found';
+  const expected = expectedNonce(tx.from);
+  if (tx.nonce !== expected) return `Invalid nonce: expected ${expected}, got ${tx.nonce}`;
+  if (sender.balance - pendingAmount(tx.from) < Number(tx.amount)) return 'Insufficient balance';
+  return null;
+}
+
+// Confirms every staged transaction in a new epoch
+function advanceEpoch() {
+  if (staged.length === 0) return;
+  for (const tx of staged) {
+    const sender = account(tx.from);
+    sender.balance -= Number(tx.amount);
+    sender.nonce = tx.nonce;
+    account(tx.to_).balance += Number(tx.amount);
+    confirmed.set(tx.hash, { tx, epoch });
+    for (const address of new Set([tx.from, tx.to_])) {
+      history.set(address, [{ hash: tx.hash, epoch }, ...(history.get(address) ?? [])]);
+    }
+  }
+  console.log(`Epoch ${epoch}: confirmed ${staged.length} transaction(s)`);
+  staged = [];
+  epoch++;
+}
+
+setInterval(advanceEpoch, EPOCH_MS);
+
+// Returns the first scripted failure matching the request, consuming one use of it.
+// reject and nonce-conflict only apply to /send-tx.
+function takeFailure(path) {
+  const failure = failures.find(f => path.startsWith(f.endpoint) && (path === '/send-tx' || f.mode === 'timeout' || f.mode === 'error'));
+  if (!failure) return null;
+  failure.remaining--;
+  failures = failures.filter(f => f.remaining > 0);
+  return failure.mode;
+}
+
+const stagedView = tx => ({
+  hash: tx.hash,
+  from: tx.from,
+  to: tx.to_,
+  amount: tx.amount,
+  nonce: tx.nonce,
+  ou: tx.ou,
+  timestamp: tx.timestamp,
+  message: tx.message,
+});
+
+function handleRead(path, query) {
+  let match;
+  if ((match = path.match(/^\/balance\/(oct\w+)$/))) {
+    const found = accounts.get(match[1]);
+    if (!found) return [404, { error: 'Sender not found' }];
+    return [200, { address: match[1], balance: formatOct(found.balance), balance_raw: String(found.balance), nonce: found.nonce }];
+  }
+  if (path === '/staging') {
+    return [200, { staged_transactions: staged.map(stagedView), count: staged.length }];
+  }
+  if ((match = path.match(/^\/address\/(oct\w+)$/))) {
+    const found = accounts.get(match[1]);
+    if (!found) return [404, { error: 'Address not found' }];
+    const limit = Number(query.get('limit') ?? 20);
+    return [200, {
+      address: match[1],
+      balance: formatOct(found.balance),
+      nonce: found.nonce,
+      recent_transactions: (history.get(match[1]) ?? []).slice(0, limit).map(ref => ({ ...ref, url: `/tx/${ref.hash}` })),
+    }];
+  }
+  if ((match = path.match(/^\/tx\/([0-9a-f]{64})$/i))) {
+    const found = confirmed.get(match[1].toLowerCase());
+    if (!found) return [404, { error: 'Transaction not found' }];
+    const { tx } = found;
+    return [200, {
+      tx_hash: tx.hash,
+      epoch: found.epoch,
+      parsed_tx: { from: tx.from, to: tx.to_, amount: tx.amount, amount_raw: tx.amount, nonce: tx.nonce, ou: tx.ou, timestamp: tx.timestamp, message: tx.message },
+    }];
+  }
+  return null;
+}
+
+function handleSend(tx, failure) {
+  if (failure === 'reject') return [200, { status: 'rejected', error: 'Rejected by scripted failure' }];
+  if (failure === 'nonce-conflict') return [400, { error: `Invalid nonce: ${tx?.nonce} is already used` }];
+  const error = validateTransaction(tx ?? {});
+  if (error) return [400, { error }];
+
+  const hash = createHash('sha256').update(JSON.stringify(tx)).digest('hex');
+  staged.push({ ...tx, hash });
+  console.log(`Staged ${hash} (${formatOct(Number(tx.amount))} OCT ${tx.from} -> ${tx.to_}, nonce ${tx.nonce})`);
+  return [200, { status: 'accepted', tx_hash: hash, pool_info: { total_pool_size: staged.length } }];
+}
+
+function handleControl(method, path, body) {
+  if (method === 'POST' && path === '/_mock/fund') {
+    if (typeof body?.address !== 'string' || !(Number(body.amount) > 0)) return [400, { error: 'Expected {"address", "amount"}' }];
+    account(body.address).balance += Math.round(Number(body.amount) * MICRO);
+    return [200, { address: body.address, balance: formatOct(accounts.get(body.address).balance) }];
+  }
+  if (method === 'POST' && path === '/_mock/failures') {
+    if (!FAILURE_MODES.includes(body?.mode)) return [400, { error: `mode must be one of: ${FAILURE_MODES.join(', ')}` }];
+    failures.push({ mode: body.mode, endpoint: body.endpoint ?? '/', remaining: Number(body.count ?? 1) });
+    return [200, { failures }];
+  }
+  if (method === 'DELETE' && path === '/_mock/failures') {
+    failures = [];
+    return [200, { failures }];
+  }
+  if (method === 'POST' && path === '/_mock/epoch') {
+    advanceEpoch();
+    return [200, { epoch }];
+  }
+  if (method === 'GET' && path === '/_mock/state') {
+    return [200, { epoch, accounts: Object.fromEntries(accounts), staged, failures }];
+  }
+  return [404, { error: 'Unknown control endpoint' }];
+}
+
+async function readBody(request) {
+  const chunks = [];
+  for await (const chunk of request) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString();
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host}`);
+  const body = request.method === 'GET' ? undefined : await readBody(request);
+  const send = ([status, data]) => {
+    response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(data));
+  };
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS);
+    return response.end();
+  }
+  if (url.pathname.startsWith('/_mock/')) {
+    return send(handleControl(request.method, url.pathname, body));
+  }
+  if (request.method === 'GET' && url.pathname.startsWith('/explorer/')) {
+    const path = url.pathname.replace(/^\/explorer/, '').replace(/^\/addr\//, '/address/');
+    return send(handleRead(path, url.searchParams) ?? [404, { error: 'Not found' }]);
+  }
+
+  const failure = takeFailure(url.pathname);
+  console.log(`${request.method} ${url.pathname}${failure ? ` (scripted ${failure})` : ''}`);
+  if (failure === 'timeout') {
+    return setTimeout(() => send([504, { error: 'Scripted timeout' }]), 15000);
+  }
+  if (failure === 'error') {
+    return send([500, { error: 'Scripted internal error' }]);
+  }
+
+  if (request.method === 'POST' && url.pathname === '/send-tx') {
+    return send(handleSend(body, failure));
+  }
+  if (request.method === 'GET') {
+    const result = handleRead(url.pathname, url.searchParams);
+    if (result) return send(result);
+  }
+  send([404, { error: 'Not found' }]);
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Mock Octra node listening on http://127.0.0.1:${PORT}, epochs every ${EPOCH_MS / 1000}s`);
+});